@@ -0,0 +1,175 @@
+import { useMemo, useState } from 'react';
+import { formatConversion, formatMoney } from '@/lib/format';
+import type { AgencyComparison } from '@/lib/fees/types';
+
+type SortKey = 'agency' | 'currency' | 'total' | 'converted';
+
+type AgencyComparisonTableProps = {
+  comparisons: AgencyComparison[];
+  targetCurrency?: string;
+};
+
+const SORT_COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'agency', label: 'Agency' },
+  { key: 'currency', label: 'Currency' },
+  { key: 'total', label: 'Total Fee' },
+];
+
+const compareRows = (
+  a: AgencyComparison,
+  b: AgencyComparison,
+  key: SortKey,
+): number => {
+  if (key === 'agency') {
+    return a.agencyName.localeCompare(b.agencyName);
+  }
+
+  if (!a.result || !b.result) {
+    return a.result ? -1 : b.result ? 1 : 0;
+  }
+
+  const byCurrency = a.result.currency.localeCompare(b.result.currency);
+  if (key === 'currency') {
+    return byCurrency;
+  }
+
+  if (key === 'converted') {
+    const aTotal = a.result.conversion?.totalFee;
+    const bTotal = b.result.conversion?.totalFee;
+    if (aTotal === undefined || bTotal === undefined) {
+      return aTotal !== undefined ? -1 : bTotal !== undefined ? 1 : 0;
+    }
+    return aTotal - bTotal;
+  }
+
+  // Fees in different currencies cannot be ranked against each other, so
+  // unconverted totals are only ordered within their currency.
+  return byCurrency || a.result.totalFeeMinor - b.result.totalFeeMinor;
+};
+
+export default function AgencyComparisonTable({
+  comparisons,
+  targetCurrency,
+}: AgencyComparisonTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey | null>(null);
+  const [isAscending, setIsAscending] = useState(true);
+
+  const columns = targetCurrency
+    ? [...SORT_COLUMNS, { key: 'converted' as const, label: targetCurrency }]
+    : SORT_COLUMNS;
+  const defaultSortKey: SortKey = targetCurrency ? 'converted' : 'total';
+  const activeSortKey =
+    sortKey === null || (!targetCurrency && sortKey === 'converted')
+      ? defaultSortKey
+      : sortKey;
+  const currencyCount = new Set(
+    comparisons.flatMap((comparison) =>
+      comparison.result ? [comparison.result.currency] : [],
+    ),
+  ).size;
+
+  const sortedComparisons = useMemo(
+    () =>
+      [...comparisons].sort((a, b) => {
+        const order = compareRows(a, b, activeSortKey);
+        return isAscending ? order : -order;
+      }),
+    [comparisons, activeSortKey, isAscending],
+  );
+
+  const handleSort = (key: SortKey) => {
+    if (key === activeSortKey) {
+      setIsAscending((prev) => !prev);
+      return;
+    }
+
+    setSortKey(key);
+    setIsAscending(true);
+  };
+
+  return (
+    <div className="mt-6 overflow-x-auto">
+      {currencyCount > 1 && activeSortKey === 'total' ? (
+        <p className="mb-3 text-xs text-slate-500">
+          These agencies bill in different currencies, so fees are grouped by
+          currency and only ranked within each group.
+          {targetCurrency
+            ? ` Sort by ${targetCurrency} to rank all agencies together.`
+            : ' Choose a display currency to rank all agencies together.'}
+        </p>
+      ) : null}
+      <table className="w-full text-left text-sm text-slate-800">
+        <thead>
+          <tr className="border-b border-slate-200 text-xs uppercase tracking-wide text-slate-500">
+            {columns.map((column) => (
+              <th key={column.key} className="px-4 py-3">
+                <button
+                  type="button"
+                  className="font-semibold uppercase tracking-wide hover:text-slate-700"
+                  onClick={() => handleSort(column.key)}
+                >
+                  {column.label}
+                  {activeSortKey === column.key
+                    ? isAscending
+                      ? ' ▲'
+                      : ' ▼'
+                    : ''}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedComparisons.map((comparison) => (
+            <tr
+              key={comparison.agencyId}
+              className="border-b border-slate-100 last:border-0"
+            >
+              <td className="px-4 py-3 font-medium">{comparison.agencyName}</td>
+              <td className="px-4 py-3">
+                {comparison.result?.currency ?? '—'}
+              </td>
+              <td className="px-4 py-3 font-semibold">
+                {comparison.result ? (
+                  formatMoney(
+                    comparison.result.currency,
+                    comparison.result.totalFee,
+                  )
+                ) : (
+                  <span className="font-normal text-slate-500">
+                    {comparison.error ??
+                      'No fee rules for this procedure and role'}
+                  </span>
+                )}
+              </td>
+              {targetCurrency ? (
+                <td className="px-4 py-3">
+                  {comparison.result?.conversion ? (
+                    <>
+                      <span className="font-semibold">
+                        {formatMoney(
+                          comparison.result.conversion.currency,
+                          comparison.result.conversion.totalFee,
+                        )}
+                      </span>
+                      <p className="text-xs text-slate-500">
+                        {formatConversion(
+                          comparison.result.currency,
+                          comparison.result.conversion,
+                        )}
+                      </p>
+                    </>
+                  ) : (
+                    <span className="text-slate-500">
+                      {comparison.conversionError ?? '—'}
+                    </span>
+                  )}
+                </td>
+              ) : null}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { formatMoney } from '@/lib/format';
+import type { CalculationHistoryEntry } from '@/lib/calculationHistory';
+
+type CalculationHistoryProps = {
+  entries: CalculationHistoryEntry[];
+  agencyNames: Map<string, string>;
+  procedureNames: Map<number, string>;
+  onRestore: (entry: CalculationHistoryEntry) => void;
+  onClear: () => void;
+  onExport: () => void;
+};
+
+export default function CalculationHistory({
+  entries,
+  agencyNames,
+  procedureNames,
+  onRestore,
+  onClear,
+  onExport,
+}: CalculationHistoryProps) {
+  return (
+    <section className="mt-10 rounded-3xl bg-white p-8 shadow-sm ring-1 ring-slate-200">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold text-slate-900">History</h2>
+          <p className="mt-2 text-sm text-slate-600">
+            Calculations made in this browser. Restore one to load its inputs
+            back into the form.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            className="rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm font-semibold text-slate-700 disabled:opacity-50"
+            onClick={onExport}
+            disabled={entries.length === 0}
+          >
+            Export
+          </button>
+          <button
+            type="button"
+            className="rounded-xl border border-rose-200 bg-white px-3 py-2 text-sm font-semibold text-rose-700 disabled:opacity-50"
+            onClick={onClear}
+            disabled={entries.length === 0}
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="mt-6 text-sm text-slate-500">
+          No calculations recorded yet.
+        </p>
+      ) : (
+        <ul className="mt-6 divide-y divide-slate-100">
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              className="flex flex-wrap items-center justify-between gap-3 py-3 text-sm"
+            >
+              <div>
+                <p className="font-medium text-slate-900">
+                  {agencyNames.get(entry.request.agencyId) ??
+                    entry.request.agencyId}{' '}
+                  ·{' '}
+                  {procedureNames.get(entry.request.procedureId) ??
+                    `Procedure ${entry.request.procedureId}`}{' '}
+                  · {entry.request.role}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {new Date(entry.createdAt).toLocaleString()} ·{' '}
+                  {entry.source === 'assistant' ? 'Assistant' : 'Form'} ·{' '}
+                  {entry.request.units.length} unit line
+                  {entry.request.units.length === 1 ? '' : 's'}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="font-semibold text-slate-900">
+                  {formatMoney(entry.currency, entry.totalFee)}
+                </span>
+                <button
+                  type="button"
+                  className="rounded-lg border border-indigo-200 px-3 py-1 text-xs font-semibold text-indigo-700"
+                  onClick={() => onRestore(entry)}
+                >
+                  Restore
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,120 @@
+import { formatMoney } from '@/lib/format';
+import type { DecentralisedFeeResult } from '@/lib/fees/types';
+
+type DecentralisedResultsProps = {
+  result: DecentralisedFeeResult;
+  agencyNames: Map<string, string>;
+};
+
+export default function DecentralisedResults({
+  result,
+  agencyNames,
+}: DecentralisedResultsProps) {
+  const unavailableCount = result.estimates.filter(
+    (estimate) => estimate.error,
+  ).length;
+
+  return (
+    <div className="mt-6 space-y-6">
+      <div className="rounded-2xl bg-slate-50 px-6 py-4">
+        <p className="text-sm uppercase tracking-wide text-slate-500">
+          Consolidated Total
+        </p>
+        {result.totals.length === 0 ? (
+          <p className="mt-2 text-sm text-slate-600">
+            None of the selected agencies returned a fee.
+          </p>
+        ) : (
+          result.totals.map((total) => (
+            <p
+              key={total.currency}
+              className="mt-2 text-3xl font-semibold text-slate-900"
+            >
+              {formatMoney(total.currency, total.totalFee)}
+            </p>
+          ))
+        )}
+        {result.totals.length > 1 ? (
+          <p className="mt-2 text-sm text-slate-600">
+            Totals are shown per currency because the agencies bill in different
+            currencies.
+          </p>
+        ) : null}
+        {unavailableCount > 0 ? (
+          <p className="mt-2 text-sm text-rose-700">
+            {unavailableCount === 1
+              ? '1 agency could not be priced and is'
+              : `${unavailableCount} agencies could not be priced and are`}{' '}
+            not included in the total.
+          </p>
+        ) : null}
+      </div>
+
+      <div>
+        <p className="text-sm font-semibold uppercase tracking-wide text-slate-500">
+          Per-Agency Breakdown
+        </p>
+        <ul className="mt-4 space-y-3">
+          {result.estimates.map((estimate) => {
+            const currency = estimate.result?.currency ?? '';
+            const warnings =
+              estimate.result?.warnings.filter(
+                (warning) => warning.code !== 'no-rules',
+              ) ?? [];
+            return (
+              <li
+                key={estimate.agencyId}
+                className="rounded-2xl border border-slate-200 px-4 py-3 text-sm text-slate-800"
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">
+                    {agencyNames.get(estimate.agencyId) ?? estimate.agencyId}
+                    <span className="ml-2 rounded-full bg-slate-100 px-2 py-0.5 text-xs font-semibold uppercase tracking-wide text-slate-600">
+                      {estimate.role}
+                    </span>
+                  </span>
+                  {estimate.result && !estimate.error ? (
+                    <span className="font-semibold">
+                      {formatMoney(
+                        estimate.result.currency,
+                        estimate.result.totalFee,
+                      )}
+                    </span>
+                  ) : (
+                    <span className="text-rose-700">Unavailable</span>
+                  )}
+                </div>
+                {estimate.result && !estimate.error ? (
+                  <ul className="mt-2 space-y-1 text-slate-600">
+                    {estimate.result.feeBreakdown.map((item, index) => (
+                      <li
+                        key={`${item.ruleId ?? item.label}-${index}`}
+                        className="flex justify-between"
+                      >
+                        <span>{item.label}</span>
+                        <span>{formatMoney(currency, item.amount)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="mt-2 text-rose-700">{estimate.error}</p>
+                )}
+                {warnings.length > 0 ? (
+                  <ul className="mt-2 space-y-1 text-xs text-amber-700">
+                    {warnings.map((warning) => (
+                      <li
+                        key={`${warning.code}-${warning.field}-${warning.componentId}`}
+                      >
+                        {warning.message}
+                      </li>
+                    ))}
+                  </ul>
+                ) : null}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import type { FeeComponentRecord, FeeRuleRecord } from '@/lib/fees/types';
+
+export const EDITABLE_RULE_COLUMNS = [
+  { key: 'role', label: 'Role', type: 'text' },
+  { key: 'rule_kind', label: 'Kind', type: 'text' },
+  { key: 'component_id', label: 'Component', type: 'component' },
+  { key: 'amount', label: 'Amount', type: 'number' },
+  { key: 'included_quantity', label: 'Included', type: 'number' },
+  { key: 'min_amount', label: 'Min', type: 'number' },
+  { key: 'max_amount', label: 'Max', type: 'number' },
+  { key: 'percentage', label: '%', type: 'number' },
+  { key: 'applies_to', label: 'Applies to', type: 'text' },
+  { key: 'target_component_id', label: 'Target', type: 'component' },
+  { key: 'sequence', label: 'Sequence', type: 'number' },
+  { key: 'condition', label: 'Condition', type: 'text' },
+  { key: 'valid_from', label: 'Valid from', type: 'date' },
+  { key: 'valid_to', label: 'Valid to', type: 'date' },
+] as const;
+
+type EditableRuleKey = (typeof EDITABLE_RULE_COLUMNS)[number]['key'];
+
+export type FeeRuleDraft = Record<EditableRuleKey, string>;
+
+type FeeRuleEditorRowProps = {
+  rule: FeeRuleRecord | null;
+  components: FeeComponentRecord[];
+  onSave: (draft: FeeRuleDraft) => Promise<void>;
+  onDelete?: () => Promise<void>;
+};
+
+const toDraft = (rule: FeeRuleRecord | null): FeeRuleDraft =>
+  Object.fromEntries(
+    EDITABLE_RULE_COLUMNS.map(({ key }) => {
+      const value = rule?.[key];
+      return [key, value === undefined || value === null ? '' : String(value)];
+    }),
+  ) as FeeRuleDraft;
+
+const describeComponent = (component: FeeComponentRecord) =>
+  `${component.component_id} · ${
+    component.name ?? component.component_name ?? 'Unnamed'
+  }`;
+
+export default function FeeRuleEditorRow({
+  rule,
+  components,
+  onSave,
+  onDelete,
+}: FeeRuleEditorRowProps) {
+  const [draft, setDraft] = useState<FeeRuleDraft>(() => toDraft(rule));
+  const [isSaving, setIsSaving] = useState(false);
+  const [rowError, setRowError] = useState<string | null>(null);
+
+  const isDirty = EDITABLE_RULE_COLUMNS.some(
+    ({ key }) => draft[key] !== toDraft(rule)[key],
+  );
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    setRowError(null);
+    try {
+      await action();
+    } catch (error) {
+      setRowError(
+        error instanceof Error ? error.message : 'Something went wrong.',
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () =>
+    run(async () => {
+      await onSave(draft);
+      if (!rule) {
+        setDraft(toDraft(null));
+      }
+    });
+
+  return (
+    <>
+      <tr className="border-b border-slate-100 align-top last:border-0">
+        <td className="px-2 py-2 text-xs text-slate-500">
+          {rule?.id ?? 'New'}
+        </td>
+        {EDITABLE_RULE_COLUMNS.map(({ key, type }) => (
+          <td key={key} className="px-1 py-2">
+            {type === 'component' ? (
+              <select
+                className="w-40 rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm"
+                value={draft[key]}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, [key]: event.target.value }))
+                }
+              >
+                <option value="">None</option>
+                {components.map((component) => (
+                  <option
+                    key={component.component_id}
+                    value={String(component.component_id)}
+                  >
+                    {describeComponent(component)}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type={type}
+                className={`rounded-lg border border-slate-300 px-2 py-1 text-sm ${
+                  type === 'date' ? 'w-36' : type === 'number' ? 'w-24' : 'w-28'
+                }`}
+                value={draft[key]}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, [key]: event.target.value }))
+                }
+              />
+            )}
+          </td>
+        ))}
+        <td className="whitespace-nowrap px-2 py-2">
+          <button
+            type="button"
+            className="rounded-lg bg-indigo-600 px-3 py-1 text-xs font-semibold text-white disabled:bg-slate-300"
+            disabled={isSaving || !isDirty}
+            onClick={() => void handleSave()}
+          >
+            {rule ? 'Save' : 'Add'}
+          </button>
+          {onDelete ? (
+            <button
+              type="button"
+              className="ml-2 rounded-lg border border-rose-200 px-3 py-1 text-xs font-semibold text-rose-700 disabled:opacity-50"
+              disabled={isSaving}
+              onClick={() => void run(onDelete)}
+            >
+              Delete
+            </button>
+          ) : null}
+        </td>
+      </tr>
+      {rowError ? (
+        <tr>
+          <td
+            colSpan={EDITABLE_RULE_COLUMNS.length + 2}
+            className="px-2 pb-2 text-xs text-rose-700"
+          >
+            {rowError}
+          </td>
+        </tr>
+      ) : null}
+    </>
+  );
+}
@@ -0,0 +1,197 @@
+import { formatMoney } from '@/lib/format';
+import { fromMinorUnits } from '@/lib/fees/money';
+import type { FeeBreakdownItem, FeeCalculationResult } from '@/lib/fees/types';
+
+export type FeeScenario = {
+  id: string;
+  name: string;
+  summary: string;
+  result: Pick<
+    FeeCalculationResult,
+    'currency' | 'totalFee' | 'totalFeeMinor' | 'feeBreakdown'
+  >;
+};
+
+type ScenarioComparisonProps = {
+  scenarios: FeeScenario[];
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onRemove: (id: string) => void;
+};
+
+type ComparisonRow = {
+  key: string;
+  label: string;
+  amounts: (number | null)[];
+};
+
+// Per-unit labels carry the quantity, so lines are matched on component and
+// line type rather than on their label.
+const getLineKey = (item: FeeBreakdownItem) =>
+  `${item.lineType}:${item.componentId ?? item.label}`;
+
+const getLineLabel = (item: FeeBreakdownItem) =>
+  item.lineType === 'adjustment' || !item.componentName
+    ? item.label
+    : item.componentName;
+
+function buildRows(scenarios: FeeScenario[]): ComparisonRow[] {
+  const rows = new Map<string, ComparisonRow>();
+
+  scenarios.forEach((scenario, index) => {
+    scenario.result.feeBreakdown.forEach((item) => {
+      const key = getLineKey(item);
+      const row = rows.get(key) ?? {
+        key,
+        label: getLineLabel(item),
+        amounts: scenarios.map(() => null),
+      };
+      row.amounts[index] = (row.amounts[index] ?? 0) + item.amountMinor;
+      rows.set(key, row);
+    });
+  });
+
+  return Array.from(rows.values());
+}
+
+const formatDelta = (
+  currency: string,
+  baseline: number | null,
+  value: number | null,
+) => {
+  const difference = (value ?? 0) - (baseline ?? 0);
+  if (difference === 0) {
+    return 'no change';
+  }
+
+  const sign = difference > 0 ? '+' : '−';
+  return `${sign}${formatMoney(
+    currency,
+    fromMinorUnits(Math.abs(difference), currency),
+  )}`;
+};
+
+const formatPercentDelta = (baseline: number, value: number) =>
+  baseline === 0 || baseline === value
+    ? ''
+    : ` (${value >= baseline ? '+' : ''}${(
+        ((value - baseline) / baseline) *
+        100
+      ).toFixed(1)}%)`;
+
+export default function ScenarioComparison({
+  scenarios,
+  onRename,
+  onDuplicate,
+  onRemove,
+}: ScenarioComparisonProps) {
+  const [baseline] = scenarios;
+  const rows = buildRows(scenarios);
+  const isComparable = (scenario: FeeScenario) =>
+    scenario.result.currency === baseline.result.currency;
+
+  return (
+    <div className="mt-8 overflow-x-auto">
+      <p className="text-sm font-semibold uppercase tracking-wide text-slate-500">
+        Pinned Scenarios
+      </p>
+      <p className="mt-1 text-xs text-slate-500">
+        Differences are shown against {baseline.name}. Scenarios priced in
+        another currency are not compared.
+      </p>
+      <table className="mt-4 w-full text-left text-sm text-slate-800">
+        <thead>
+          <tr className="border-b border-slate-200 align-top">
+            <th className="px-3 py-2 text-xs uppercase tracking-wide text-slate-500">
+              Component
+            </th>
+            {scenarios.map((scenario) => (
+              <th key={scenario.id} className="min-w-44 px-3 py-2">
+                <input
+                  type="text"
+                  className="w-full rounded-lg border border-slate-300 px-2 py-1 text-sm font-semibold"
+                  value={scenario.name}
+                  onChange={(event) =>
+                    onRename(scenario.id, event.target.value)
+                  }
+                />
+                <p className="mt-1 text-xs font-normal text-slate-500">
+                  {scenario.summary}
+                </p>
+                <div className="mt-1 flex gap-2 text-xs font-semibold">
+                  <button
+                    type="button"
+                    className="text-indigo-600 hover:text-indigo-800"
+                    onClick={() => onDuplicate(scenario.id)}
+                  >
+                    Duplicate
+                  </button>
+                  <button
+                    type="button"
+                    className="text-rose-600 hover:text-rose-800"
+                    onClick={() => onRemove(scenario.id)}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key} className="border-b border-slate-100">
+              <td className="px-3 py-2">{row.label}</td>
+              {scenarios.map((scenario, index) => {
+                const amount = row.amounts[index];
+                return (
+                  <td key={scenario.id} className="px-3 py-2">
+                    {amount === null
+                      ? '—'
+                      : formatMoney(
+                          scenario.result.currency,
+                          fromMinorUnits(amount, scenario.result.currency),
+                        )}
+                    {index > 0 && isComparable(scenario) ? (
+                      <p className="text-xs text-slate-500">
+                        {formatDelta(
+                          scenario.result.currency,
+                          row.amounts[0],
+                          amount,
+                        )}
+                      </p>
+                    ) : null}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+          <tr className="font-semibold">
+            <td className="px-3 py-2">Total</td>
+            {scenarios.map((scenario, index) => (
+              <td key={scenario.id} className="px-3 py-2">
+                {formatMoney(
+                  scenario.result.currency,
+                  scenario.result.totalFee,
+                )}
+                {index > 0 && isComparable(scenario) ? (
+                  <p className="text-xs font-normal text-slate-500">
+                    {formatDelta(
+                      scenario.result.currency,
+                      baseline.result.totalFeeMinor,
+                      scenario.result.totalFeeMinor,
+                    )}
+                    {formatPercentDelta(
+                      baseline.result.totalFeeMinor,
+                      scenario.result.totalFeeMinor,
+                    )}
+                  </p>
+                ) : null}
+              </td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
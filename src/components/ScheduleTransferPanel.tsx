@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import type {
+  FeeRuleRecord,
+  ScheduleDiff,
+  ScheduleFormat,
+  ScheduleRowError,
+} from '@/lib/fees/types';
+
+type ScheduleTransferPanelProps = {
+  agencyId: string;
+  token: string;
+  versionName: string;
+  onApplied: () => void;
+};
+
+type ImportPayload = {
+  applied?: boolean;
+  diff?: ScheduleDiff;
+  error?: string;
+  rowErrors?: ScheduleRowError[];
+};
+
+const describeRule = (rule: FeeRuleRecord) =>
+  [
+    `procedure ${rule.procedure_id ?? '?'}`,
+    rule.role,
+    rule.component_id ? `component ${rule.component_id}` : rule.rule_kind,
+    rule.condition,
+    rule.valid_from ? `from ${rule.valid_from}` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+export default function ScheduleTransferPanel({
+  agencyId,
+  token,
+  versionName,
+  onApplied,
+}: ScheduleTransferPanelProps) {
+  const [file, setFile] = useState<{
+    content: string;
+    format: ScheduleFormat;
+  } | null>(null);
+  const [diff, setDiff] = useState<ScheduleDiff | null>(null);
+  const [rowErrors, setRowErrors] = useState<ScheduleRowError[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const authHeaders = { Authorization: `Bearer ${token}` };
+
+  const exportSchedule = async (format: ScheduleFormat) => {
+    setMessage(null);
+    const params = new URLSearchParams({ agencyId, format });
+    const response = await fetch(`/api/admin/schedule/export?${params}`, {
+      headers: authHeaders,
+    });
+
+    if (!response.ok) {
+      const payload = (await response.json()) as { error?: string };
+      setMessage(payload.error ?? 'Export failed.');
+      return;
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `fee-schedule-${agencyId}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const submitImport = async (apply: boolean) => {
+    if (!file) {
+      return;
+    }
+
+    setIsBusy(true);
+    setMessage(null);
+    setRowErrors([]);
+    try {
+      const response = await fetch('/api/admin/schedule/import', {
+        method: 'POST',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ agencyId, ...file, apply, versionName }),
+      });
+      const payload = (await response.json()) as ImportPayload;
+
+      if (!response.ok) {
+        setDiff(null);
+        setRowErrors(payload.rowErrors ?? []);
+        setMessage(payload.error ?? 'Import failed.');
+        return;
+      }
+
+      setDiff(payload.diff ?? null);
+      if (payload.applied) {
+        setMessage('Import applied.');
+        setFile(null);
+        onApplied();
+      }
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Import failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileChange = async (selected: File | undefined) => {
+    setDiff(null);
+    setRowErrors([]);
+    setMessage(null);
+    setFile(
+      selected
+        ? {
+            content: await selected.text(),
+            format: selected.name.toLowerCase().endsWith('.json')
+              ? 'json'
+              : 'csv',
+          }
+        : null,
+    );
+  };
+
+  const hasChanges =
+    diff !== null &&
+    diff.added.length + diff.changed.length + diff.removed.length > 0;
+
+  return (
+    <section className="mt-8 rounded-2xl border border-slate-200 bg-slate-50/50 p-6">
+      <p className="text-base font-semibold text-slate-900">Import / export</p>
+      <p className="text-sm text-slate-600">
+        Export this agency&apos;s schedule, or import a CSV or JSON file. An
+        import replaces the agency&apos;s rules for every procedure in the file
+        and is previewed before it is applied.
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+        {(['csv', 'json'] as const).map((format) => (
+          <button
+            key={format}
+            type="button"
+            className="rounded-lg border border-slate-300 bg-white px-3 py-1 font-semibold text-slate-700"
+            onClick={() => void exportSchedule(format)}
+          >
+            Export {format.toUpperCase()}
+          </button>
+        ))}
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={(event) => void handleFileChange(event.target.files?.[0])}
+        />
+        <button
+          type="button"
+          className="rounded-lg bg-slate-800 px-3 py-1 font-semibold text-white disabled:bg-slate-300"
+          disabled={!file || isBusy}
+          onClick={() => void submitImport(false)}
+        >
+          Preview import
+        </button>
+        <button
+          type="button"
+          className="rounded-lg bg-indigo-600 px-3 py-1 font-semibold text-white disabled:bg-slate-300"
+          disabled={!file || !hasChanges || isBusy}
+          onClick={() => void submitImport(true)}
+        >
+          Apply import
+        </button>
+      </div>
+
+      {message ? (
+        <p className="mt-4 text-sm text-slate-700">{message}</p>
+      ) : null}
+
+      {rowErrors.length > 0 ? (
+        <ul className="mt-2 space-y-1 text-xs text-rose-700">
+          {rowErrors.map((rowError) => (
+            <li key={rowError.row}>
+              Row {rowError.row}: {rowError.errors.join(' ')}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {diff ? (
+        <div className="mt-4 space-y-2 text-sm text-slate-700">
+          <p>
+            {diff.added.length} to add, {diff.changed.length} to change,{' '}
+            {diff.removed.length} to remove, {diff.unchangedCount} unchanged.
+          </p>
+          <ul className="space-y-1 text-xs">
+            {diff.added.map((rule, index) => (
+              <li key={`added-${index}`} className="text-emerald-700">
+                + {describeRule(rule)}
+              </li>
+            ))}
+            {diff.changed.map((change) => (
+              <li
+                key={`changed-${change.before.id}`}
+                className="text-amber-700"
+              >
+                ~ Rule {change.before.id} ({describeRule(change.after)}):{' '}
+                {change.fields.join(', ')}
+              </li>
+            ))}
+            {diff.removed.map((rule) => (
+              <li key={`removed-${rule.id}`} className="text-rose-700">
+                − Rule {rule.id} ({describeRule(rule)})
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </section>
+  );
+}
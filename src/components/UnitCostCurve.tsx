@@ -0,0 +1,73 @@
+import { formatMoney } from '@/lib/format';
+import type { UnitSensitivity } from '@/lib/fees/types';
+
+type UnitCostCurveProps = {
+  sensitivity?: UnitSensitivity;
+  currency: string;
+};
+
+const describeMarginalCost = (
+  { marginalCost }: UnitSensitivity,
+  currency: string,
+) =>
+  marginalCost === null
+    ? 'no further units can be added'
+    : marginalCost === 0
+      ? 'next unit adds nothing'
+      : `next unit adds ${formatMoney(currency, marginalCost)}`;
+
+export default function UnitCostCurve({
+  sensitivity,
+  currency,
+}: UnitCostCurveProps) {
+  if (!sensitivity) {
+    return null;
+  }
+
+  const { curve, quantity, includedQuantity, remainingAllowance } = sensitivity;
+  const lowest = Math.min(...curve.map((point) => point.totalFeeMinor));
+  const highest = Math.max(...curve.map((point) => point.totalFeeMinor));
+  const range = highest - lowest;
+
+  return (
+    <span className="mt-2 block text-xs font-normal text-slate-500">
+      At {quantity} unit{quantity === 1 ? '' : 's'}:{' '}
+      {includedQuantity > 0
+        ? `${remainingAllowance} of ${includedQuantity} included unit${
+            includedQuantity === 1 ? '' : 's'
+          } left · `
+        : ''}
+      {describeMarginalCost(sensitivity, currency)}
+      {curve.length > 1 ? (
+        <span
+          className="mt-2 flex h-12 gap-1"
+          aria-label="Total fee at nearby quantities"
+        >
+          {curve.map((point) => (
+            <span
+              key={point.quantity}
+              className="flex h-full flex-1 flex-col items-center justify-end gap-0.5"
+              title={`${point.quantity} unit${
+                point.quantity === 1 ? '' : 's'
+              }: ${formatMoney(currency, point.totalFee)}`}
+            >
+              <span
+                className={`block w-full rounded-sm ${
+                  point.quantity === quantity ? 'bg-indigo-500' : 'bg-slate-300'
+                }`}
+                style={{
+                  height: `${
+                    range === 0
+                      ? 40
+                      : 10 + ((point.totalFeeMinor - lowest) / range) * 65
+                  }%`,
+                }}
+              />
+              <span className="text-[10px] leading-none">{point.quantity}</span>
+            </span>
+          ))}
+        </span>
+      ) : null}
+    </span>
+  );
+}
@@ -0,0 +1,39 @@
+import { timingSafeEqual } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+const getBearerToken = (req: NextApiRequest) => {
+  const header = req.headers.authorization;
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1].trim() ?? null;
+};
+
+const tokensMatch = (provided: string, expected: string) => {
+  const providedBuffer = Buffer.from(provided);
+  const expectedBuffer = Buffer.from(expected);
+  return (
+    providedBuffer.length === expectedBuffer.length &&
+    timingSafeEqual(providedBuffer, expectedBuffer)
+  );
+};
+
+// Admin routes accept `Authorization: Bearer <ADMIN_API_TOKEN>`. When the
+// token is not configured every admin request is refused.
+export function requireAdmin(
+  req: NextApiRequest,
+  res: NextApiResponse<{ error: string }>,
+): boolean {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    res.status(503).json({ error: 'The admin API is not configured.' });
+    return false;
+  }
+
+  const provided = getBearerToken(req);
+  if (!provided || !tokensMatch(provided, expected)) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    res.status(401).json({ error: 'A valid admin token is required.' });
+    return false;
+  }
+
+  return true;
+}
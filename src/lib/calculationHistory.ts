@@ -0,0 +1,104 @@
+import {
+  COMPANY_SIZES,
+  type ApplicantProfile,
+  type UnitInput,
+} from '@/lib/fees/types';
+
+export const CALCULATION_HISTORY_KEY = 'regfee-calculation-history';
+export const MAX_HISTORY_ENTRIES = 50;
+
+export type CalculationRequest = {
+  agencyId: string;
+  procedureId: number;
+  role: string;
+  units: UnitInput[];
+  applicant: ApplicantProfile;
+  asOfDate?: string;
+  targetCurrency?: string;
+};
+
+export type CalculationSource = 'form' | 'assistant';
+
+export type CalculationHistoryEntry = {
+  id: string;
+  createdAt: string;
+  source: CalculationSource;
+  request: CalculationRequest;
+  totalFee: number;
+  currency: string;
+};
+
+const isOptional = (value: unknown, type: 'string' | 'boolean') =>
+  value === undefined || typeof value === type;
+
+const isUnitInput = (value: unknown): value is UnitInput => {
+  const unit = value as Partial<UnitInput> | null;
+  return (
+    typeof unit?.componentId === 'number' &&
+    Number.isFinite(unit.componentId) &&
+    typeof unit.quantity === 'number' &&
+    Number.isFinite(unit.quantity)
+  );
+};
+
+const isApplicantProfile = (value: unknown): value is ApplicantProfile => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+
+  const applicant = value as Record<string, unknown>;
+  return (
+    (applicant.companySize === undefined ||
+      COMPANY_SIZES.some((size) => size === applicant.companySize)) &&
+    isOptional(applicant.orphanDesignation, 'boolean') &&
+    isOptional(applicant.paediatricIndication, 'boolean') &&
+    isOptional(applicant.publicHealthNonProfit, 'boolean')
+  );
+};
+
+const isHistoryEntry = (value: unknown): value is CalculationHistoryEntry => {
+  const entry = value as Partial<CalculationHistoryEntry> | null;
+  return (
+    typeof entry?.id === 'string' &&
+    typeof entry.createdAt === 'string' &&
+    (entry.source === 'form' || entry.source === 'assistant') &&
+    typeof entry.request?.agencyId === 'string' &&
+    typeof entry.request.procedureId === 'number' &&
+    typeof entry.request.role === 'string' &&
+    Array.isArray(entry.request.units) &&
+    entry.request.units.every(isUnitInput) &&
+    isApplicantProfile(entry.request.applicant) &&
+    isOptional(entry.request.asOfDate, 'string') &&
+    isOptional(entry.request.targetCurrency, 'string') &&
+    typeof entry.totalFee === 'number' &&
+    typeof entry.currency === 'string'
+  );
+};
+
+// Entries written by an older version of the page, or edited by hand, are
+// dropped rather than restored into the form half-formed.
+export function loadCalculationHistory(
+  storage: Storage,
+): CalculationHistoryEntry[] {
+  try {
+    const stored: unknown = JSON.parse(
+      storage.getItem(CALCULATION_HISTORY_KEY) ?? '[]',
+    );
+    return Array.isArray(stored)
+      ? stored.filter(isHistoryEntry).slice(0, MAX_HISTORY_ENTRIES)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCalculationHistory(
+  storage: Storage,
+  entries: CalculationHistoryEntry[],
+) {
+  try {
+    storage.setItem(CALCULATION_HISTORY_KEY, JSON.stringify(entries));
+  } catch (storageError) {
+    console.warn('Unable to save calculation history:', storageError);
+  }
+}
@@ -0,0 +1,112 @@
+import type { ParsedUrlQuery } from 'querystring';
+import { COMPANY_SIZES, type ApplicantProfile } from '@/lib/fees/types';
+import { getQueryValue } from '@/lib/queryParams';
+
+export const CALCULATOR_MODES = ['single', 'decentralised', 'compare'] as const;
+export type CalculatorMode = (typeof CALCULATOR_MODES)[number];
+
+const APPLICANT_FLAG_KEYS = [
+  'orphanDesignation',
+  'paediatricIndication',
+  'publicHealthNonProfit',
+] as const;
+
+export type CalculatorUrlState = {
+  mode: CalculatorMode;
+  agencyId: string;
+  procedureId: number | '';
+  role: string;
+  units: { componentId: number; quantity: number }[];
+  asOfDate: string;
+  targetCurrency: string;
+  isStrict: boolean;
+  applicant: ApplicantProfile;
+  concernedAgencyIds: string[];
+};
+
+const splitList = (value: string | undefined) =>
+  (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Units are written as "componentId:quantity" pairs, e.g. units=12:3,14:1.
+const parseUnits = (value: string | undefined) =>
+  splitList(value)
+    .map((pair) => pair.split(':').map(Number))
+    .filter(
+      ([componentId, quantity]) =>
+        Number.isInteger(componentId) &&
+        Number.isFinite(quantity) &&
+        quantity > 0,
+    )
+    .map(([componentId, quantity]) => ({ componentId, quantity }));
+
+export function parseCalculatorQuery(
+  query: ParsedUrlQuery,
+): CalculatorUrlState {
+  const mode = CALCULATOR_MODES.find(
+    (candidate) => candidate === getQueryValue(query.mode),
+  );
+  const procedureId = Number(getQueryValue(query.procedure));
+  const flags = splitList(getQueryValue(query.applicant));
+  const applicant: ApplicantProfile = {
+    companySize: COMPANY_SIZES.find(
+      (size) => size === getQueryValue(query.size),
+    ),
+  };
+  APPLICANT_FLAG_KEYS.forEach((key) => {
+    if (flags.includes(key)) {
+      applicant[key] = true;
+    }
+  });
+
+  return {
+    mode: mode ?? 'single',
+    agencyId: getQueryValue(query.agency) ?? '',
+    procedureId:
+      getQueryValue(query.procedure) && Number.isInteger(procedureId)
+        ? procedureId
+        : '',
+    role: getQueryValue(query.role) ?? '',
+    units: parseUnits(getQueryValue(query.units)),
+    asOfDate: getQueryValue(query.asOf) ?? '',
+    targetCurrency: getQueryValue(query.currency)?.toUpperCase() ?? '',
+    isStrict: getQueryValue(query.strict) === '1',
+    applicant,
+    concernedAgencyIds: splitList(getQueryValue(query.concerned)),
+  };
+}
+
+// Only non-default values are written so shared links stay short.
+export function toCalculatorQuery(
+  state: CalculatorUrlState,
+): Record<string, string> {
+  const units = state.units
+    .filter((unit) => unit.quantity > 0)
+    .map((unit) => `${unit.componentId}:${unit.quantity}`)
+    .join(',');
+  const flags = APPLICANT_FLAG_KEYS.filter((key) => state.applicant[key]);
+  const entries: [string, string | undefined][] = [
+    ['mode', state.mode === 'single' ? undefined : state.mode],
+    ['agency', state.agencyId],
+    ['procedure', String(state.procedureId)],
+    ['role', state.role],
+    ['units', units],
+    ['asOf', state.asOfDate],
+    ['currency', state.targetCurrency],
+    ['strict', state.isStrict ? '1' : undefined],
+    ['size', state.applicant.companySize],
+    ['applicant', flags.join(',')],
+    [
+      'concerned',
+      state.mode === 'decentralised'
+        ? state.concernedAgencyIds.join(',')
+        : undefined,
+    ],
+  ];
+
+  return Object.fromEntries(
+    entries.filter((entry): entry is [string, string] => Boolean(entry[1])),
+  );
+}
@@ -0,0 +1,36 @@
+import { calculateFee } from './engine';
+import type {
+  BatchScenario,
+  BatchScenarioResult,
+  FeeDataSource,
+} from './types';
+
+export const MAX_BATCH_SCENARIOS = 200;
+
+export async function calculateFeeBatch(
+  scenarios: BatchScenario[],
+  dataSource: FeeDataSource,
+): Promise<BatchScenarioResult[]> {
+  return Promise.all(
+    scenarios.map(async (scenario): Promise<BatchScenarioResult> => {
+      if ('error' in scenario) {
+        return { id: scenario.id, result: null, error: scenario.error };
+      }
+
+      try {
+        const result = await calculateFee(scenario.input, dataSource);
+        return { id: scenario.id, result, error: null };
+      } catch (error) {
+        console.error(`Batch scenario ${scenario.id} failed:`, error);
+        return {
+          id: scenario.id,
+          result: null,
+          error:
+            error instanceof Error
+              ? error.message
+              : 'Unexpected error occurred.',
+        };
+      }
+    }),
+  );
+}
@@ -0,0 +1,58 @@
+import { calculateFee } from './engine';
+import { isRuleEffective, todayIsoDate } from './schedule';
+import type {
+  AgencyComparison,
+  AgencyComparisonInput,
+  FeeDataSource,
+} from './types';
+
+export async function compareAgencies(
+  input: AgencyComparisonInput,
+  dataSource: FeeDataSource,
+): Promise<AgencyComparison[]> {
+  const asOfDate = input.asOfDate ?? todayIsoDate();
+  const role = input.role.trim();
+  const [agencies, rules] = await Promise.all([
+    dataSource.getAgencies(),
+    dataSource.getFeeRules({ procedureId: input.procedureId, role }),
+  ]);
+
+  const agenciesWithRules = new Set(
+    rules
+      .filter((rule) => isRuleEffective(rule, asOfDate))
+      .map((rule) => rule.agency_id?.trim())
+      .filter((agencyId): agencyId is string => Boolean(agencyId)),
+  );
+
+  return Promise.all(
+    agencies.map(async (agency): Promise<AgencyComparison> => {
+      const comparison = {
+        agencyId: agency.id,
+        agencyName: agency.name,
+        hasRules: agenciesWithRules.has(agency.id),
+      };
+
+      if (!comparison.hasRules) {
+        return { ...comparison, result: null, error: null };
+      }
+
+      try {
+        const result = await calculateFee(
+          { ...input, agencyId: agency.id, role, asOfDate },
+          dataSource,
+        );
+        return { ...comparison, result, error: null };
+      } catch (error) {
+        console.error(`Comparison failed for ${agency.id}:`, error);
+        return {
+          ...comparison,
+          result: null,
+          error:
+            error instanceof Error
+              ? error.message
+              : 'Unexpected error occurred.',
+        };
+      }
+    }),
+  );
+}
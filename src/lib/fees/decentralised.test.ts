@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDecentralisedFee } from './decentralised';
+import { createMemoryFeeDataSource } from './memoryDataSource';
+
+const dataSource = createMemoryFeeDataSource({
+  agencies: [
+    { agency_id: 'DE', currency: 'EUR' },
+    { agency_id: 'FR', currency: 'EUR' },
+    { agency_id: 'NL', currency: 'EUR' },
+  ],
+  components: [
+    { component_id: 1, name: 'Application fee', charge_type: 'flat' },
+  ],
+  rules: [
+    {
+      agency_id: 'DE',
+      procedure_id: 1,
+      role: 'RMS',
+      component_id: 1,
+      amount: 1000,
+    },
+    {
+      agency_id: 'FR',
+      procedure_id: 1,
+      role: 'CMS',
+      component_id: 1,
+      amount: 400,
+    },
+    {
+      agency_id: 'NL',
+      procedure_id: 1,
+      role: 'Concerned',
+      component_id: 1,
+      amount: 300,
+    },
+  ],
+});
+
+describe('calculateDecentralisedFee', () => {
+  it('leaves agencies without rules for the role out of the total', async () => {
+    const result = await calculateDecentralisedFee(
+      {
+        procedureId: 1,
+        units: [],
+        asOfDate: '2026-06-01',
+        referenceAgencyId: 'DE',
+        referenceRole: 'RMS',
+        concernedAgencyIds: ['FR', 'NL'],
+        concernedRole: 'CMS',
+      },
+      dataSource,
+    );
+
+    expect(result.totals).toEqual([
+      { currency: 'EUR', totalFee: 1400, totalFeeMinor: 140000 },
+    ]);
+    const netherlands = result.estimates.find(
+      (estimate) => estimate.agencyId === 'NL',
+    );
+    expect(netherlands?.error).toContain('No fee rules apply to NL');
+    expect(netherlands?.result?.warnings).toMatchObject([{ code: 'no-rules' }]);
+  });
+
+  it('prices each concerned agency with its own role when one is given', async () => {
+    const result = await calculateDecentralisedFee(
+      {
+        procedureId: 1,
+        units: [],
+        asOfDate: '2026-06-01',
+        referenceAgencyId: 'DE',
+        referenceRole: 'RMS',
+        concernedAgencyIds: ['FR', 'NL'],
+        concernedRole: 'CMS',
+        concernedRoles: { NL: 'Concerned' },
+      },
+      dataSource,
+    );
+
+    expect(result.estimates.map((estimate) => estimate.error)).toEqual([
+      null,
+      null,
+      null,
+    ]);
+    expect(result.totals[0].totalFee).toBe(1700);
+  });
+});
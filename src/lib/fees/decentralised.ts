@@ -0,0 +1,78 @@
+import { calculateFee } from './engine';
+import { fromMinorUnits } from './money';
+import type {
+  AgencyFeeEstimate,
+  CurrencyTotal,
+  DecentralisedFeeInput,
+  DecentralisedFeeResult,
+  FeeDataSource,
+} from './types';
+
+export function sumByCurrency(estimates: AgencyFeeEstimate[]): CurrencyTotal[] {
+  const totals = new Map<string, number>();
+  estimates.forEach(({ result, error }) => {
+    if (result && !error) {
+      totals.set(
+        result.currency,
+        (totals.get(result.currency) ?? 0) + result.totalFeeMinor,
+      );
+    }
+  });
+
+  return Array.from(totals, ([currency, totalFeeMinor]) => ({
+    currency,
+    totalFee: fromMinorUnits(totalFeeMinor, currency),
+    totalFeeMinor,
+  }));
+}
+
+export async function calculateDecentralisedFee(
+  input: DecentralisedFeeInput,
+  dataSource: FeeDataSource,
+): Promise<DecentralisedFeeResult> {
+  const {
+    referenceAgencyId,
+    referenceRole,
+    concernedAgencyIds,
+    concernedRole,
+    concernedRoles,
+    ...shared
+  } = input;
+  const participants = [
+    { agencyId: referenceAgencyId, role: referenceRole },
+    ...concernedAgencyIds.map((agencyId) => ({
+      agencyId,
+      role: concernedRoles?.[agencyId] ?? concernedRole,
+    })),
+  ];
+
+  const estimates = await Promise.all(
+    participants.map(async ({ agencyId, role }): Promise<AgencyFeeEstimate> => {
+      try {
+        const result = await calculateFee(
+          { ...shared, agencyId, role },
+          dataSource,
+        );
+        // An agency without rules for the role would otherwise count as a
+        // free participant and understate the consolidated total.
+        const noRules = result.warnings.find(
+          (warning) => warning.code === 'no-rules',
+        );
+        return { agencyId, role, result, error: noRules?.message ?? null };
+      } catch (error) {
+        console.error(`Decentralised estimate failed for ${agencyId}:`, error);
+        return {
+          agencyId,
+          role,
+          result: null,
+          error:
+            error instanceof Error
+              ? error.message
+              : 'Unexpected error occurred.',
+        };
+      }
+    }),
+  );
+
+  return { estimates, totals: sumByCurrency(estimates) };
+}
@@ -0,0 +1,127 @@
+import {
+  COMPANY_SIZES,
+  type ApplicantProfile,
+  type CompanySize,
+  type EligibilityResult,
+} from './types';
+
+type ConditionDefinition = {
+  label: string;
+  evaluate: (profile: ApplicantProfile) => { matched: boolean; reason: string };
+};
+
+const describeCompanySize = (profile: ApplicantProfile) =>
+  profile.companySize
+    ? `Applicant company size is ${profile.companySize}.`
+    : 'No company size was provided.';
+
+const companySizeCondition = (
+  label: string,
+  sizes: CompanySize[],
+): ConditionDefinition => ({
+  label,
+  evaluate: (profile) => ({
+    matched: Boolean(
+      profile.companySize && sizes.includes(profile.companySize),
+    ),
+    reason: describeCompanySize(profile),
+  }),
+});
+
+const flagCondition = (
+  label: string,
+  key: 'orphanDesignation' | 'paediatricIndication' | 'publicHealthNonProfit',
+  matchedReason: string,
+  unmatchedReason: string,
+): ConditionDefinition => ({
+  label,
+  evaluate: (profile) =>
+    profile[key]
+      ? { matched: true, reason: matchedReason }
+      : { matched: false, reason: unmatchedReason },
+});
+
+const FEE_CONDITIONS: Record<string, ConditionDefinition> = {
+  sme: companySizeCondition('Small or medium-sized enterprise', [
+    'micro',
+    'small',
+    'medium',
+  ]),
+  micro: companySizeCondition('Micro enterprise', ['micro']),
+  small: companySizeCondition('Small enterprise', ['micro', 'small']),
+  orphan: flagCondition(
+    'Orphan designation',
+    'orphanDesignation',
+    'The product holds an orphan designation.',
+    'No orphan designation was declared.',
+  ),
+  paediatric: flagCondition(
+    'Paediatric indication',
+    'paediatricIndication',
+    'The application covers a paediatric indication.',
+    'No paediatric indication was declared.',
+  ),
+  non_profit: flagCondition(
+    'Public-health or non-profit applicant',
+    'publicHealthNonProfit',
+    'The applicant is a public-health or non-profit body.',
+    'The applicant was not declared as public-health or non-profit.',
+  ),
+};
+
+export function normaliseCondition(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const condition = value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+  return condition || null;
+}
+
+export const isKnownCondition = (condition: string) =>
+  Object.hasOwn(FEE_CONDITIONS, condition);
+
+export function evaluateCondition(
+  condition: string,
+  profile: ApplicantProfile,
+): EligibilityResult {
+  const definition = FEE_CONDITIONS[condition];
+
+  if (!definition) {
+    return {
+      condition,
+      label: condition,
+      matched: false,
+      reason: `Unknown eligibility condition "${condition}".`,
+    };
+  }
+
+  return {
+    condition,
+    label: definition.label,
+    ...definition.evaluate(profile),
+  };
+}
+
+export function normaliseApplicantProfile(value: unknown): ApplicantProfile {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+
+  const data = value as Record<string, unknown>;
+  const companySize = COMPANY_SIZES.find(
+    (size) =>
+      typeof data.companySize === 'string' &&
+      size === data.companySize.trim().toLowerCase(),
+  );
+
+  return {
+    companySize,
+    orphanDesignation: data.orphanDesignation === true,
+    paediatricIndication: data.paediatricIndication === true,
+    publicHealthNonProfit: data.publicHealthNonProfit === true,
+  };
+}
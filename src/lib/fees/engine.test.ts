@@ -0,0 +1,372 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFee } from './engine';
+import { createMemoryFeeDataSource, type FeeFixture } from './memoryDataSource';
+import type { FeeCalculationInput, FeeRuleRecord } from './types';
+
+const BASE_FIXTURE: FeeFixture = {
+  agencies: [
+    { agency_id: 'EMA', name: 'European Medicines Agency', currency: 'EUR' },
+    { agency_id: 'PMDA', name: 'PMDA', currency: 'JPY' },
+  ],
+  components: [
+    { component_id: 1, name: 'Application fee', charge_type: 'flat' },
+    { component_id: 2, name: 'Additional strength', charge_type: 'per-unit' },
+    { component_id: 3, name: 'Additional form', charge_type: 'per-unit' },
+  ],
+};
+
+const rule = (overrides: FeeRuleRecord): FeeRuleRecord => ({
+  agency_id: 'EMA',
+  procedure_id: 1,
+  role: 'RMS',
+  ...overrides,
+});
+
+const calculate = (
+  fixture: Partial<FeeFixture>,
+  input: Partial<FeeCalculationInput> = {},
+) =>
+  calculateFee(
+    {
+      agencyId: 'EMA',
+      procedureId: 1,
+      role: 'RMS',
+      units: [],
+      asOfDate: '2026-06-01',
+      ...input,
+    },
+    createMemoryFeeDataSource({ ...BASE_FIXTURE, ...fixture }),
+  );
+
+describe('calculateFee', () => {
+  it('prices flat and per-unit components beyond the included quantity', async () => {
+    const result = await calculate(
+      {
+        rules: [
+          rule({ id: 1, component_id: 1, amount: 1000 }),
+          rule({ id: 2, component_id: 2, amount: 150.5, included_quantity: 1 }),
+        ],
+      },
+      { units: [{ componentId: 2, quantity: 3 }] },
+    );
+
+    expect(result.totalFeeMinor).toBe(130100);
+    expect(result.totalFee).toBe(1301);
+    expect(result.currency).toBe('EUR');
+    expect(
+      result.feeBreakdown.map((item) => [item.lineType, item.amountMinor]),
+    ).toEqual([
+      ['base', 100000],
+      ['per-unit', 30100],
+    ]);
+    expect(result.feeBreakdown[1].billableQuantity).toBe(2);
+  });
+
+  it('prices each unit in the band it falls into', async () => {
+    const result = await calculate(
+      {
+        rules: [
+          rule({
+            id: 1,
+            component_id: 2,
+            included_quantity: 1,
+            bands: [
+              { min_quantity: 1, max_quantity: 3, amount: 100 },
+              { min_quantity: 4, amount: 40 },
+            ],
+          }),
+        ],
+      },
+      { units: [{ componentId: 2, quantity: 6 }] },
+    );
+
+    expect(
+      result.feeBreakdown.map((item) => [item.label, item.amountMinor]),
+    ).toEqual([
+      ['Additional strength units 1-3 (x2)', 20000],
+      ['Additional strength units 4+ (x3)', 12000],
+    ]);
+    expect(result.totalFee).toBe(320);
+  });
+
+  it('rounds lines priced for fractional quantities to whole minor units', async () => {
+    const result = await calculate(
+      { rules: [rule({ id: 1, component_id: 2, amount: 0.33 })] },
+      { units: [{ componentId: 2, quantity: 1.5 }] },
+    );
+
+    expect(result.feeBreakdown[0].amountMinor).toBe(50);
+    expect(result.totalFeeMinor).toBe(50);
+    expect(result.totalFee).toBe(0.5);
+  });
+
+  it('applies component caps and the procedure floor', async () => {
+    const capped = await calculate(
+      {
+        rules: [
+          rule({ id: 1, component_id: 1, amount: 500 }),
+          rule({ id: 2, component_id: 2, amount: 100, max_amount: 250 }),
+        ],
+      },
+      { units: [{ componentId: 2, quantity: 5 }] },
+    );
+
+    expect(capped.totalFee).toBe(750);
+    expect(capped.feeBreakdown.at(-1)).toMatchObject({
+      label: 'Additional strength maximum charge applied',
+      lineType: 'adjustment',
+      amountMinor: -25000,
+    });
+
+    const floored = await calculate({
+      rules: [rule({ id: 1, component_id: 1, amount: 500 })],
+      limits: [
+        { agency_id: 'EMA', procedure_id: 1, role: 'RMS', min_total: 800 },
+      ],
+    });
+
+    expect(floored.totalFee).toBe(800);
+    expect(floored.feeBreakdown.at(-1)?.label).toBe(
+      'Procedure fee minimum charge applied',
+    );
+  });
+
+  it('lets a full waiver bypass the procedure floor but not a partial reduction', async () => {
+    const limits = [
+      { agency_id: 'EMA', procedure_id: 1, role: 'RMS', min_total: 500 },
+    ];
+    const waiver = (percentage: number) =>
+      rule({
+        id: 2,
+        rule_kind: 'adjustment',
+        percentage,
+        applies_to: 'total',
+      });
+
+    const waived = await calculate({
+      rules: [rule({ id: 1, component_id: 1, amount: 1000 }), waiver(-100)],
+      limits,
+    });
+    expect(waived.totalFee).toBe(0);
+    expect(waived.feeBreakdown.at(-1)?.label).toBe(
+      'Waiver of total fee (-100%)',
+    );
+
+    const reduced = await calculate({
+      rules: [rule({ id: 1, component_id: 1, amount: 1000 }), waiver(-80)],
+      limits,
+    });
+    expect(reduced.totalFee).toBe(500);
+    expect(reduced.feeBreakdown.at(-1)?.label).toBe(
+      'Procedure fee minimum charge applied',
+    );
+  });
+
+  it('applies eligible adjustments in sequence order', async () => {
+    const rules = [
+      rule({ id: 1, component_id: 1, amount: 1000 }),
+      rule({ id: 2, component_id: 2, amount: 100 }),
+      rule({
+        id: 3,
+        rule_kind: 'adjustment',
+        component_name: 'SME reduction',
+        percentage: -50,
+        applies_to: 'base',
+        condition: 'sme',
+        sequence: 1,
+      }),
+      rule({
+        id: 4,
+        rule_kind: 'adjustment',
+        percentage: 10,
+        applies_to: 'total',
+        sequence: 2,
+      }),
+    ];
+    const units = [{ componentId: 2, quantity: 2 }];
+
+    const sme = await calculate(
+      { rules },
+      { units, applicant: { companySize: 'small' } },
+    );
+    expect(
+      sme.feeBreakdown
+        .filter((item) => item.lineType === 'adjustment')
+        .map((item) => [item.label, item.amountMinor]),
+    ).toEqual([
+      ['SME reduction (-50%)', -50000],
+      ['Surcharge on total fee (+10%)', 7000],
+    ]);
+    expect(sme.totalFee).toBe(770);
+    expect(sme.eligibility).toMatchObject([
+      { condition: 'sme', matched: true },
+    ]);
+
+    const large = await calculate(
+      { rules },
+      { units, applicant: { companySize: 'large' } },
+    );
+    expect(large.totalFee).toBe(1320);
+    expect(large.eligibility).toMatchObject([
+      { condition: 'sme', matched: false },
+    ]);
+  });
+
+  it('warns when a rule has a condition it does not recognise', async () => {
+    const result = await calculate({
+      rules: [rule({ id: 1, component_id: 1, amount: 1000, condition: 'foo' })],
+    });
+
+    expect(result.totalFee).toBe(0);
+    expect(result.warnings.map((warning) => warning.code)).toEqual([
+      'unknown-condition',
+      'no-rules',
+    ]);
+  });
+
+  it('rounds fractional amounts half away from zero in minor units', async () => {
+    const reduction = rule({
+      id: 2,
+      rule_kind: 'adjustment',
+      percentage: -50,
+      applies_to: 'total',
+    });
+
+    const euro = await calculate({
+      rules: [rule({ id: 1, component_id: 1, amount: 10.01 }), reduction],
+    });
+    expect(euro.precision).toEqual({
+      minorUnits: 2,
+      roundingMode: 'half-away-from-zero',
+    });
+    expect(euro.feeBreakdown.at(-1)?.amountMinor).toBe(-501);
+    expect(euro.totalFee).toBe(5);
+
+    const yen = await calculate(
+      {
+        rules: [
+          rule({ id: 1, agency_id: 'PMDA', component_id: 1, amount: 1010 }),
+          rule({
+            id: 2,
+            agency_id: 'PMDA',
+            rule_kind: 'adjustment',
+            percentage: 5,
+            applies_to: 'total',
+          }),
+        ],
+      },
+      { agencyId: 'PMDA' },
+    );
+    expect(yen.precision.minorUnits).toBe(0);
+    expect(yen.totalFeeMinor).toBe(1061);
+  });
+
+  it('only prices rules effective on the as-of date', async () => {
+    const rules = [
+      rule({ id: 1, component_id: 1, amount: 900, valid_to: '2025-12-31' }),
+      rule({
+        id: 2,
+        component_id: 1,
+        amount: 1000,
+        valid_from: '2026-01-01',
+        schedule_version: '2026',
+      }),
+    ];
+
+    const current = await calculate({ rules });
+    expect(current.totalFee).toBe(1000);
+    expect(current.schedule).toMatchObject({
+      version: '2026',
+      effectiveFrom: '2026-01-01',
+    });
+
+    const previous = await calculate({ rules }, { asOfDate: '2025-06-01' });
+    expect(previous.totalFee).toBe(900);
+  });
+
+  it('warns about units it cannot price or that fall within the allowance', async () => {
+    const result = await calculate(
+      {
+        rules: [
+          rule({ id: 1, component_id: 2, amount: 100, included_quantity: 2 }),
+        ],
+      },
+      {
+        units: [
+          { componentId: 2, quantity: 2 },
+          { componentId: 3, quantity: 1 },
+        ],
+      },
+    );
+
+    expect(result.totalFee).toBe(0);
+    expect(result.warnings.map((warning) => warning.code)).toEqual([
+      'within-allowance',
+      'unknown-component',
+    ]);
+  });
+
+  it('only describes unit sensitivity when asked to', async () => {
+    const rules = [
+      rule({ id: 1, component_id: 1, amount: 1000 }),
+      rule({ id: 2, component_id: 2, amount: 100, included_quantity: 1 }),
+    ];
+    const units = [{ componentId: 2, quantity: 1 }];
+
+    const plain = await calculate({ rules }, { units });
+    expect(plain.sensitivity).toBeUndefined();
+
+    const detailed = await calculate(
+      { rules },
+      { units, includeSensitivity: true },
+    );
+    expect(detailed.sensitivity).toMatchObject([
+      {
+        componentId: 2,
+        quantity: 1,
+        remainingAllowance: 0,
+        marginalCostMinor: 10000,
+      },
+    ]);
+    expect(detailed.sensitivity?.[0].curve[0]).toEqual({
+      quantity: 0,
+      totalFee: 1000,
+      totalFeeMinor: 100000,
+    });
+  });
+
+  it('keeps the sensitivity curve within the component quantity bounds', async () => {
+    const result = await calculate(
+      {
+        components: [
+          {
+            component_id: 2,
+            name: 'Additional strength',
+            charge_type: 'per-unit',
+            min_quantity: 2,
+            max_quantity: 4,
+          },
+        ],
+        rules: [rule({ id: 1, component_id: 2, amount: 100 })],
+      },
+      { units: [{ componentId: 2, quantity: 2 }], includeSensitivity: true },
+    );
+
+    expect(
+      result.sensitivity?.[0].curve.map((point) => point.quantity),
+    ).toEqual([2, 3, 4]);
+  });
+
+  it('returns a no-rules warning when nothing applies to the role', async () => {
+    const result = await calculate(
+      { rules: [rule({ id: 1, component_id: 1, amount: 1000 })] },
+      { role: 'CMS' },
+    );
+
+    expect(result.totalFee).toBe(0);
+    expect(result.feeBreakdown).toEqual([]);
+    expect(result.warnings).toMatchObject([
+      { code: 'no-rules', field: 'role' },
+    ]);
+  });
+});
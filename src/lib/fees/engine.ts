@@ -0,0 +1,798 @@
+import {
+  evaluateCondition,
+  isKnownCondition,
+  normaliseCondition,
+} from './eligibility';
+import {
+  applyPercentage,
+  fromMinorUnits,
+  getCurrencyPrecision,
+  roundMinor,
+  sumMinor,
+  toMinorUnits,
+} from './money';
+import { toNumber } from './parse';
+import { describeSchedule, isRuleEffective, todayIsoDate } from './schedule';
+import {
+  ADJUSTMENT_TARGETS,
+  type ApplicantProfile,
+  type FeeAdjustment,
+  type FeeBand,
+  type FeeBreakdownItem,
+  type FeeCalculationInput,
+  type FeeCalculationResult,
+  type FeeComponent,
+  type EligibilityResult,
+  type FeeDataSource,
+  type FeeLimitRecord,
+  type FeeLimits,
+  type FeeRuleBandRecord,
+  type FeeRuleRecord,
+  type FeeWarning,
+  type UnitInput,
+  type UnitSensitivity,
+} from './types';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+const SENSITIVITY_POINTS = 8;
+
+export function getRuleComponentId(rule: FeeRuleRecord): number | null {
+  const componentId = toNumber(
+    rule.component_id ?? rule.componentId,
+    Number.NaN,
+  );
+  return Number.isNaN(componentId) ? null : componentId;
+}
+
+export function getRuleAmount(rule: FeeRuleRecord): number {
+  return Math.max(0, toNumber(rule.amount, 0));
+}
+
+export function getIncludedQuantity(rule: FeeRuleRecord): number {
+  return Math.max(
+    0,
+    toNumber(rule.included_quantity ?? rule.includedQuantity, 0),
+  );
+}
+
+export function getRuleId(rule: FeeRuleRecord): number | null {
+  const id = toNumber(rule.id, Number.NaN);
+  return Number.isNaN(id) ? null : id;
+}
+
+export function getReferencedComponentIds(rules: FeeRuleRecord[]): number[] {
+  return Array.from(
+    new Set(
+      rules
+        .flatMap((rule) => [
+          getRuleComponentId(rule),
+          toNumber(rule.target_component_id, Number.NaN),
+        ])
+        .filter((id): id is number => typeof id === 'number' && id > 0),
+    ),
+  );
+}
+
+export function getRuleBands(rule: FeeRuleRecord): FeeBand[] {
+  let rawBands: unknown = rule.bands;
+
+  if (typeof rawBands === 'string') {
+    try {
+      rawBands = JSON.parse(rawBands);
+    } catch {
+      // Rule validation rejects malformed bands before they are saved.
+      return [];
+    }
+  }
+
+  if (!Array.isArray(rawBands)) {
+    return [];
+  }
+
+  return (rawBands as FeeRuleBandRecord[])
+    .map((band) => {
+      const minQuantity = Math.max(
+        1,
+        toNumber(band?.min_quantity ?? band?.minQuantity, 1),
+      );
+      const maxQuantity = toNumber(
+        band?.max_quantity ?? band?.maxQuantity,
+        Number.NaN,
+      );
+      return {
+        minQuantity,
+        maxQuantity: Number.isNaN(maxQuantity) ? null : maxQuantity,
+        amount: Math.max(0, toNumber(band?.amount, 0)),
+      };
+    })
+    .filter(
+      (band) =>
+        band.maxQuantity === null || band.maxQuantity >= band.minQuantity,
+    )
+    .sort((a, b) => a.minQuantity - b.minQuantity);
+}
+
+const formatBandRange = (band: FeeBand) =>
+  band.maxQuantity === null
+    ? `units ${band.minQuantity}+`
+    : band.maxQuantity === band.minQuantity
+      ? `unit ${band.minQuantity}`
+      : `units ${band.minQuantity}-${band.maxQuantity}`;
+
+// Lines are priced in minor units; `unitPrice` arrives in minor units too and
+// both are exposed in major units alongside the exact `amountMinor`.
+function createLine(
+  line: Pick<FeeBreakdownItem, 'label' | 'lineType' | 'amountMinor'> &
+    Partial<FeeBreakdownItem>,
+  currency: string,
+): FeeBreakdownItem {
+  return {
+    label: line.label,
+    lineType: line.lineType,
+    componentId: line.componentId ?? null,
+    componentName: line.componentName ?? line.label,
+    ruleId: line.ruleId ?? null,
+    unitPrice:
+      line.unitPrice === undefined || line.unitPrice === null
+        ? null
+        : fromMinorUnits(line.unitPrice, currency),
+    submittedQuantity: line.submittedQuantity ?? null,
+    includedQuantity: line.includedQuantity ?? null,
+    billableQuantity: line.billableQuantity ?? null,
+    amount: fromMinorUnits(line.amountMinor, currency),
+    amountMinor: line.amountMinor,
+  };
+}
+
+type RuleLineContext = {
+  currency: string;
+  componentId: number;
+  componentName: string;
+  ruleId: number | null;
+  submittedQuantity: number;
+  includedQuantity: number;
+};
+
+function priceBands(
+  context: RuleLineContext,
+  bands: FeeBand[],
+): FeeBreakdownItem[] {
+  const {
+    currency,
+    componentName,
+    submittedQuantity: quantity,
+    includedQuantity,
+  } = context;
+  const items: FeeBreakdownItem[] = [];
+
+  for (const band of bands) {
+    const firstUnit = Math.max(band.minQuantity - 1, includedQuantity);
+    const lastUnit =
+      band.maxQuantity === null
+        ? quantity
+        : Math.min(band.maxQuantity, quantity);
+    const bandQuantity = lastUnit - firstUnit;
+    const unitPrice = toMinorUnits(band.amount, currency);
+
+    if (bandQuantity <= 0 || unitPrice <= 0) {
+      continue;
+    }
+
+    items.push(
+      createLine(
+        {
+          ...context,
+          label: `${componentName} ${formatBandRange(band)} (x${bandQuantity})`,
+          lineType: 'per-unit',
+          unitPrice,
+          billableQuantity: bandQuantity,
+          amountMinor: roundMinor(bandQuantity * unitPrice),
+        },
+        currency,
+      ),
+    );
+  }
+
+  return items;
+}
+
+export function isAdjustmentRule(
+  rule: FeeRuleRecord,
+  components: Map<number, FeeComponent>,
+): boolean {
+  const componentId = getRuleComponentId(rule);
+  return (
+    rule.rule_kind?.trim().toLowerCase() === 'adjustment' ||
+    (componentId !== null &&
+      components.get(componentId)?.chargeType === 'percentage')
+  );
+}
+
+const getComponentName = (
+  components: Map<number, FeeComponent>,
+  componentId: number,
+) => components.get(componentId)?.name ?? `Component ${componentId}`;
+
+export function getRuleAdjustment(
+  rule: FeeRuleRecord,
+  components: Map<number, FeeComponent>,
+): FeeAdjustment | null {
+  const percentage = toNumber(rule.percentage, Number.NaN);
+  const appliesTo = ADJUSTMENT_TARGETS.find(
+    (target) => target === rule.applies_to?.trim().toLowerCase(),
+  );
+
+  if (Number.isNaN(percentage) || percentage === 0 || !appliesTo) {
+    return null;
+  }
+
+  const targetComponentId =
+    appliesTo === 'component'
+      ? toNumber(rule.target_component_id, Number.NaN)
+      : null;
+
+  if (Number.isNaN(targetComponentId)) {
+    return null;
+  }
+
+  const targetName =
+    targetComponentId !== null
+      ? getComponentName(components, targetComponentId)
+      : appliesTo === 'base'
+        ? 'base fee'
+        : 'total fee';
+  const label =
+    rule.component_name?.trim() ||
+    (percentage <= -100
+      ? `Waiver of ${targetName}`
+      : percentage < 0
+        ? `Reduction on ${targetName}`
+        : `Surcharge on ${targetName}`);
+
+  return {
+    ruleId: getRuleId(rule),
+    label,
+    percentage,
+    appliesTo,
+    targetComponentId,
+    sequence: toNumber(rule.sequence, 0),
+  };
+}
+
+const formatPercentage = (percentage: number) =>
+  `${percentage > 0 ? '+' : ''}${percentage}%`;
+
+function applyAdjustments(
+  adjustments: FeeAdjustment[],
+  componentTotals: Map<number, number>,
+  flatTotal: number,
+  runningTotal: number,
+  currency: string,
+): FeeBreakdownItem[] {
+  const items: FeeBreakdownItem[] = [];
+  let baseFee = flatTotal;
+  let total = runningTotal;
+
+  [...adjustments]
+    .sort((a, b) => a.sequence - b.sequence)
+    .forEach((adjustment) => {
+      const baseAmount =
+        adjustment.targetComponentId !== null
+          ? (componentTotals.get(adjustment.targetComponentId) ?? 0)
+          : adjustment.appliesTo === 'base'
+            ? baseFee
+            : total;
+      const amount = Math.max(
+        -baseAmount,
+        applyPercentage(baseAmount, adjustment.percentage),
+      );
+
+      if (amount === 0) {
+        return;
+      }
+
+      if (adjustment.targetComponentId !== null) {
+        componentTotals.set(adjustment.targetComponentId, baseAmount + amount);
+      } else if (adjustment.appliesTo === 'base') {
+        baseFee += amount;
+      }
+
+      total += amount;
+      items.push(
+        createLine(
+          {
+            label: `${adjustment.label} (${formatPercentage(
+              adjustment.percentage,
+            )})`,
+            lineType: 'adjustment',
+            componentId: adjustment.targetComponentId,
+            componentName: adjustment.label,
+            ruleId: adjustment.ruleId,
+            amountMinor: amount,
+          },
+          currency,
+        ),
+      );
+    });
+
+  return items;
+}
+
+function selectEligibleRules(
+  rules: FeeRuleRecord[],
+  applicant: ApplicantProfile,
+): { feeRules: FeeRuleRecord[]; eligibility: EligibilityResult[] } {
+  const results = new Map<string, EligibilityResult>();
+
+  const feeRules = rules.filter((rule) => {
+    const condition = normaliseCondition(rule.condition);
+    if (!condition) {
+      return true;
+    }
+
+    if (!results.has(condition)) {
+      results.set(condition, evaluateCondition(condition, applicant));
+    }
+
+    return results.get(condition)?.matched ?? false;
+  });
+
+  return { feeRules, eligibility: Array.from(results.values()) };
+}
+
+// Rules with a condition the engine does not know never apply, so say why
+// rather than leaving them out silently.
+const describeConditionWarnings = (
+  eligibility: EligibilityResult[],
+): FeeWarning[] =>
+  eligibility
+    .filter(({ condition }) => !isKnownCondition(condition))
+    .map(({ condition }) => ({
+      code: 'unknown-condition',
+      field: 'condition',
+      componentId: null,
+      message: `Rules with the unknown eligibility condition "${condition}" were not applied.`,
+    }));
+
+function getRuleComponentName(
+  rule: FeeRuleRecord,
+  components: Map<number, FeeComponent>,
+  componentId: number,
+): string {
+  const fromRule =
+    (typeof rule.component_name === 'string' && rule.component_name.trim()) ||
+    null;
+
+  return fromRule ?? getComponentName(components, componentId);
+}
+
+function priceRule(
+  rule: FeeRuleRecord,
+  component: FeeComponent,
+  componentName: string,
+  matchingUnit: UnitInput | undefined,
+  currency: string,
+): FeeBreakdownItem[] {
+  const componentId = component.id;
+  const bands = getRuleBands(rule);
+  const amountPerUnit = toMinorUnits(getRuleAmount(rule), currency);
+  const ruleId = getRuleId(rule);
+
+  if (component.chargeType === 'flat') {
+    return amountPerUnit > 0
+      ? [
+          createLine(
+            {
+              label: componentName,
+              lineType: 'base',
+              componentId,
+              componentName,
+              ruleId,
+              unitPrice: amountPerUnit,
+              amountMinor: amountPerUnit,
+            },
+            currency,
+          ),
+        ]
+      : [];
+  }
+
+  if (!matchingUnit) {
+    return [];
+  }
+
+  const context: RuleLineContext = {
+    currency,
+    componentId,
+    componentName,
+    ruleId,
+    submittedQuantity: matchingUnit.quantity,
+    includedQuantity: getIncludedQuantity(rule),
+  };
+
+  if (bands.length > 0) {
+    return priceBands(context, bands);
+  }
+
+  const billableQuantity = matchingUnit.quantity - context.includedQuantity;
+
+  if (billableQuantity <= 0 || amountPerUnit <= 0) {
+    return [];
+  }
+
+  return [
+    createLine(
+      {
+        ...context,
+        label: `${componentName} (x${billableQuantity})`,
+        lineType: 'per-unit',
+        unitPrice: amountPerUnit,
+        billableQuantity,
+        // Fractional quantities are priced pro rata and rounded per line.
+        amountMinor: roundMinor(billableQuantity * amountPerUnit),
+      },
+      currency,
+    ),
+  ];
+}
+
+const sumAmounts = (items: FeeBreakdownItem[]) =>
+  sumMinor(items.map((item) => item.amountMinor));
+
+function toOptionalAmount(value: unknown): number | null {
+  const amount = toNumber(value, Number.NaN);
+  return Number.isNaN(amount) || amount < 0 ? null : amount;
+}
+
+export function getRuleLimits(rule: FeeRuleRecord): FeeLimits {
+  return {
+    minAmount: toOptionalAmount(rule.min_amount ?? rule.minAmount),
+    maxAmount: toOptionalAmount(rule.max_amount ?? rule.maxAmount),
+  };
+}
+
+export function getProcedureLimits(record: FeeLimitRecord | null): FeeLimits {
+  return {
+    minAmount: toOptionalAmount(record?.min_total ?? record?.minTotal),
+    maxAmount: toOptionalAmount(record?.max_total ?? record?.maxTotal),
+  };
+}
+
+function applyLimits(
+  amount: number,
+  limits: FeeLimits,
+  line: Pick<FeeBreakdownItem, 'componentId' | 'componentName' | 'ruleId'>,
+  isCharged: boolean,
+  currency: string,
+): FeeBreakdownItem | null {
+  const maxAmount =
+    limits.maxAmount === null ? null : toMinorUnits(limits.maxAmount, currency);
+  const minAmount =
+    limits.minAmount === null ? null : toMinorUnits(limits.minAmount, currency);
+
+  if (maxAmount !== null && amount > maxAmount) {
+    return createLine(
+      {
+        ...line,
+        label: `${line.componentName} maximum charge applied`,
+        lineType: 'adjustment',
+        amountMinor: maxAmount - amount,
+      },
+      currency,
+    );
+  }
+
+  if (isCharged && minAmount !== null && amount < minAmount) {
+    return createLine(
+      {
+        ...line,
+        label: `${line.componentName} minimum charge applied`,
+        lineType: 'adjustment',
+        amountMinor: minAmount - amount,
+      },
+      currency,
+    );
+  }
+
+  return null;
+}
+
+function describeUnitWarnings(
+  units: UnitInput[],
+  feeRules: FeeRuleRecord[],
+  components: Map<number, FeeComponent>,
+): FeeWarning[] {
+  const pricingRules = feeRules.filter(
+    (rule) => !isAdjustmentRule(rule, components),
+  );
+
+  return units.flatMap((unit): FeeWarning[] => {
+    if (unit.quantity <= 0) {
+      return [];
+    }
+
+    const rules = pricingRules.filter(
+      (rule) => getRuleComponentId(rule) === unit.componentId,
+    );
+    const componentName = getComponentName(components, unit.componentId);
+
+    if (rules.length === 0) {
+      return [
+        {
+          code: 'unknown-component',
+          field: 'units',
+          componentId: unit.componentId,
+          message: `${componentName} has no fee rule for this agency, procedure and role, so its units were not priced.`,
+        },
+      ];
+    }
+
+    const allowance = Math.max(...rules.map(getIncludedQuantity));
+    return allowance > 0 && unit.quantity <= allowance
+      ? [
+          {
+            code: 'within-allowance',
+            field: 'units',
+            componentId: unit.componentId,
+            message: `${componentName}: ${unit.quantity} unit(s) fall within the ${allowance} included free of charge.`,
+          },
+        ]
+      : [];
+  });
+}
+
+type PricingContext = {
+  feeRules: FeeRuleRecord[];
+  components: Map<number, FeeComponent>;
+  limits: FeeLimitRecord | null;
+  currency: string;
+};
+
+function priceSchedule(
+  { feeRules, components, limits, currency }: PricingContext,
+  units: UnitInput[],
+): FeeBreakdownItem[] {
+  const feeBreakdown: FeeBreakdownItem[] = [];
+  const componentTotals = new Map<number, number>();
+  const adjustments: FeeAdjustment[] = [];
+  let flatTotal = 0;
+
+  for (const rule of feeRules) {
+    if (isAdjustmentRule(rule, components)) {
+      const adjustment = getRuleAdjustment(rule, components);
+      if (adjustment) {
+        adjustments.push(adjustment);
+      }
+      continue;
+    }
+
+    const componentId = getRuleComponentId(rule);
+    if (componentId === null || componentId <= 0) {
+      continue;
+    }
+
+    const component = components.get(componentId);
+    if (!component?.chargeType) {
+      const ruleId = getRuleId(rule);
+      throw new Error(
+        `${ruleId === null ? 'A fee rule' : `Fee rule ${ruleId}`} references component ${componentId}, which has no known charge type.`,
+      );
+    }
+
+    const componentName = getRuleComponentName(rule, components, componentId);
+    const matchingUnit = units.find((unit) => unit.componentId === componentId);
+    const ruleItems = priceRule(
+      rule,
+      component,
+      componentName,
+      matchingUnit,
+      currency,
+    );
+    const limitItem = applyLimits(
+      sumAmounts(ruleItems),
+      getRuleLimits(rule),
+      { componentId, componentName, ruleId: getRuleId(rule) },
+      ruleItems.length > 0 || (matchingUnit?.quantity ?? 0) > 0,
+      currency,
+    );
+
+    const componentItems = limitItem ? [...ruleItems, limitItem] : ruleItems;
+    feeBreakdown.push(...componentItems);
+    componentTotals.set(
+      componentId,
+      (componentTotals.get(componentId) ?? 0) + sumAmounts(componentItems),
+    );
+    if (component.chargeType === 'flat') {
+      flatTotal += sumAmounts(componentItems);
+    }
+  }
+
+  const adjustmentItems = applyAdjustments(
+    adjustments,
+    componentTotals,
+    flatTotal,
+    sumAmounts(feeBreakdown),
+    currency,
+  );
+  feeBreakdown.push(...adjustmentItems);
+
+  // A full waiver leaves nothing to charge, so the procedure minimum does not
+  // bring the fee back; partial reductions are still raised to the minimum.
+  const total = sumAmounts(feeBreakdown);
+  const isWaived = adjustmentItems.length > 0 && total === 0;
+  const totalLimitItem = applyLimits(
+    total,
+    getProcedureLimits(limits),
+    { componentId: null, componentName: 'Procedure fee', ruleId: null },
+    !isWaived,
+    currency,
+  );
+  if (totalLimitItem) {
+    feeBreakdown.push(totalLimitItem);
+  }
+
+  return feeBreakdown;
+}
+
+const withQuantity = (
+  units: UnitInput[],
+  componentId: number,
+  quantity: number,
+): UnitInput[] => [
+  ...units.filter((unit) => unit.componentId !== componentId),
+  { componentId, quantity },
+];
+
+// Re-prices the schedule at neighbouring quantities of each per-unit
+// component, so caps, bands and percentage adjustments are all reflected in
+// the marginal cost rather than just the unit price. Only computed when the
+// caller asks for it, as it prices the schedule several times per component.
+function describeSensitivity(
+  pricing: PricingContext,
+  units: UnitInput[],
+  totalFeeMinor: number,
+): UnitSensitivity[] {
+  const { components, currency } = pricing;
+  const pricingRules = pricing.feeRules.filter(
+    (rule) => !isAdjustmentRule(rule, components),
+  );
+  const componentIds = Array.from(
+    new Set(
+      pricingRules
+        .map(getRuleComponentId)
+        .filter(
+          (id): id is number =>
+            id !== null && components.get(id)?.chargeType === 'per-unit',
+        ),
+    ),
+  );
+
+  return componentIds.map((componentId) => {
+    const rules = pricingRules.filter(
+      (rule) => getRuleComponentId(rule) === componentId,
+    );
+    const component = components.get(componentId);
+    const minQuantity = Math.max(0, component?.minQuantity ?? 0);
+    const maxQuantity = component?.maxQuantity ?? null;
+    const quantity =
+      units.find((unit) => unit.componentId === componentId)?.quantity ?? 0;
+    const includedQuantity = Math.max(...rules.map(getIncludedQuantity));
+    const totalAt = (nextQuantity: number) =>
+      sumAmounts(
+        priceSchedule(pricing, withQuantity(units, componentId, nextQuantity)),
+      );
+
+    const firstQuantity = Math.max(minQuantity, Math.floor(quantity) - 2);
+    const curve = Array.from(
+      { length: SENSITIVITY_POINTS },
+      (_, index) => firstQuantity + index,
+    )
+      .filter(
+        (point) =>
+          point >= minQuantity &&
+          (maxQuantity === null || point <= maxQuantity),
+      )
+      .map((point) => {
+        const pointTotal = totalAt(point);
+        return {
+          quantity: point,
+          totalFee: fromMinorUnits(pointTotal, currency),
+          totalFeeMinor: pointTotal,
+        };
+      });
+    const marginalCostMinor =
+      maxQuantity !== null && quantity + 1 > maxQuantity
+        ? null
+        : totalAt(quantity + 1) - totalFeeMinor;
+
+    return {
+      componentId,
+      componentName: getRuleComponentName(rules[0], components, componentId),
+      quantity,
+      includedQuantity,
+      remainingAllowance: Math.max(0, includedQuantity - quantity),
+      marginalCost:
+        marginalCostMinor === null
+          ? null
+          : fromMinorUnits(marginalCostMinor, currency),
+      marginalCostMinor,
+      curve,
+    };
+  });
+}
+
+export async function calculateFee(
+  input: FeeCalculationInput,
+  dataSource: FeeDataSource,
+): Promise<FeeCalculationResult> {
+  const agencyId = input.agencyId.trim();
+  const role = input.role.trim();
+  const { procedureId, units } = input;
+
+  const query = { agencyId, procedureId, role };
+  const asOfDate = input.asOfDate ?? todayIsoDate();
+  const scheduleRules = (await dataSource.getFeeRules(query)).filter((rule) =>
+    isRuleEffective(rule, asOfDate),
+  );
+  const schedule = describeSchedule(scheduleRules, asOfDate);
+  const { feeRules, eligibility } = selectEligibleRules(
+    scheduleRules,
+    input.applicant ?? {},
+  );
+
+  const currency =
+    (await dataSource.getAgencyCurrency(agencyId)) ?? DEFAULT_CURRENCY;
+  const precision = getCurrencyPrecision(currency);
+  const warnings = [
+    ...(input.warnings ?? []),
+    ...describeConditionWarnings(eligibility),
+  ];
+
+  if (feeRules.length === 0) {
+    warnings.push({
+      code: 'no-rules',
+      field: 'role',
+      componentId: null,
+      message: `No fee rules apply to ${agencyId}, procedure ${procedureId} and role ${role} on ${asOfDate}.`,
+    });
+    return {
+      totalFee: 0,
+      totalFeeMinor: 0,
+      currency,
+      precision,
+      feeBreakdown: [],
+      eligibility,
+      schedule,
+      warnings,
+    };
+  }
+
+  const components = await dataSource.getComponents(
+    getReferencedComponentIds(feeRules),
+  );
+  warnings.push(...describeUnitWarnings(units, feeRules, components));
+
+  const pricing: PricingContext = {
+    feeRules,
+    components,
+    limits: await dataSource.getFeeLimits(query),
+    currency,
+  };
+  const feeBreakdown = priceSchedule(pricing, units);
+  const totalFeeMinor = sumAmounts(feeBreakdown);
+
+  return {
+    totalFee: fromMinorUnits(totalFeeMinor, currency),
+    totalFeeMinor,
+    currency,
+    precision,
+    feeBreakdown,
+    ...(input.includeSensitivity
+      ? { sensitivity: describeSensitivity(pricing, units, totalFeeMinor) }
+      : {}),
+    eligibility,
+    schedule,
+    warnings,
+  };
+}
@@ -0,0 +1,167 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  fromMinorUnits,
+  getCurrencyPrecision,
+  getMinorUnits,
+  roundMinor,
+  toMinorUnits,
+} from './money';
+import { normaliseCurrency, toNumber } from './parse';
+import type {
+  ExchangeRateEntry,
+  ExchangeRateTable,
+  FeeCalculationResult,
+  FeeConversion,
+} from './types';
+
+const EXCHANGE_RATES_PATH =
+  process.env.EXCHANGE_RATES_PATH ??
+  path.join(process.cwd(), 'data', 'exchange-rates.json');
+
+export type ConversionOutcome = { value: FeeConversion } | { error: string };
+
+function normaliseRateTable(raw: unknown): ExchangeRateTable {
+  const data = (raw ?? {}) as { baseCurrency?: unknown; rates?: unknown };
+  const baseCurrency = normaliseCurrency(data.baseCurrency);
+
+  if (!baseCurrency || !Array.isArray(data.rates)) {
+    throw new Error('Exchange rate file must define baseCurrency and rates.');
+  }
+
+  const rates = data.rates
+    .map((entry): ExchangeRateEntry | null => {
+      const record = (entry ?? {}) as Record<string, unknown>;
+      const currency = normaliseCurrency(record.currency);
+      const rate = toNumber(record.rate, Number.NaN);
+      const effectiveDate =
+        typeof record.effectiveDate === 'string'
+          ? record.effectiveDate.trim().slice(0, 10)
+          : '';
+
+      if (!currency || !(rate > 0) || !effectiveDate) {
+        return null;
+      }
+
+      return { currency, rate, effectiveDate };
+    })
+    .filter((entry): entry is ExchangeRateEntry => Boolean(entry));
+
+  return { baseCurrency, rates };
+}
+
+export async function loadExchangeRates(
+  filePath: string = EXCHANGE_RATES_PATH,
+): Promise<ExchangeRateTable> {
+  try {
+    const contents = await fs.readFile(filePath, 'utf8');
+    return normaliseRateTable(JSON.parse(contents));
+  } catch (error) {
+    console.error('Failed to load exchange rates:', error);
+    throw new Error('Exchange rates are unavailable.');
+  }
+}
+
+export function listCurrencies(table: ExchangeRateTable): string[] {
+  return Array.from(
+    new Set([table.baseCurrency, ...table.rates.map((rate) => rate.currency)]),
+  ).sort();
+}
+
+function findRate(
+  table: ExchangeRateTable,
+  currency: string,
+  asOfDate: string,
+): ExchangeRateEntry | null {
+  if (currency === table.baseCurrency) {
+    return { currency, rate: 1, effectiveDate: asOfDate };
+  }
+
+  return table.rates
+    .filter(
+      (entry) => entry.currency === currency && entry.effectiveDate <= asOfDate,
+    )
+    .reduce<ExchangeRateEntry | null>(
+      (latest, entry) =>
+        !latest || entry.effectiveDate > latest.effectiveDate ? entry : latest,
+      null,
+    );
+}
+
+function toConversion(
+  amountMinor: number,
+  currency: string,
+  rate: number,
+  rateDate: string,
+): FeeConversion {
+  return {
+    currency,
+    totalFee: fromMinorUnits(amountMinor, currency),
+    totalFeeMinor: amountMinor,
+    precision: getCurrencyPrecision(currency),
+    rate,
+    rateDate,
+  };
+}
+
+// Rates are quoted per unit of the base currency, so converting between two
+// non-base currencies crosses through the base. The reported rate date is the
+// older of the two rates involved.
+export function convertAmount(
+  table: ExchangeRateTable,
+  amount: number,
+  fromCurrency: string,
+  toCurrency: string,
+  asOfDate: string,
+): ConversionOutcome {
+  if (fromCurrency === toCurrency) {
+    return {
+      value: toConversion(
+        toMinorUnits(amount, toCurrency),
+        toCurrency,
+        1,
+        asOfDate,
+      ),
+    };
+  }
+
+  const fromRate = findRate(table, fromCurrency, asOfDate);
+  const toRate = findRate(table, toCurrency, asOfDate);
+
+  if (!fromRate || !toRate) {
+    return {
+      error: `No exchange rate from ${fromCurrency} to ${toCurrency} is available on ${asOfDate}.`,
+    };
+  }
+
+  const rate = toRate.rate / fromRate.rate;
+  const amountMinor = roundMinor(
+    toMinorUnits(amount, fromCurrency) *
+      rate *
+      10 ** (getMinorUnits(toCurrency) - getMinorUnits(fromCurrency)),
+  );
+  return {
+    value: toConversion(
+      amountMinor,
+      toCurrency,
+      rate,
+      fromRate.effectiveDate < toRate.effectiveDate
+        ? fromRate.effectiveDate
+        : toRate.effectiveDate,
+    ),
+  };
+}
+
+export function convertResult(
+  table: ExchangeRateTable,
+  result: FeeCalculationResult,
+  targetCurrency: string,
+): ConversionOutcome {
+  return convertAmount(
+    table,
+    result.totalFee,
+    result.currency,
+    targetCurrency,
+    result.schedule.asOfDate,
+  );
+}
@@ -0,0 +1,74 @@
+import { promises as fs } from 'fs';
+import {
+  getAgencyRecordCurrency,
+  toFeeAgency,
+  toFeeComponent,
+  toNumber,
+} from './parse';
+import type {
+  AgencyRecord,
+  FeeAgency,
+  FeeComponent,
+  FeeComponentRecord,
+  FeeDataSource,
+  FeeLimitRecord,
+  FeeRuleFilter,
+  FeeRuleRecord,
+} from './types';
+
+export type FeeFixture = {
+  agencies?: AgencyRecord[];
+  components?: FeeComponentRecord[];
+  limits?: FeeLimitRecord[];
+  rules?: FeeRuleRecord[];
+};
+
+const matchesAgency = (agency: AgencyRecord, agencyId: string) =>
+  [agency.agency_id, agency.agencyid, agency.id].some(
+    (candidate) => candidate?.trim() === agencyId,
+  );
+
+const matchesQuery = (
+  record: FeeRuleRecord | FeeLimitRecord,
+  { agencyId, procedureId, role }: FeeRuleFilter,
+) =>
+  toNumber(record.procedure_id, Number.NaN) === procedureId &&
+  (agencyId === undefined || record.agency_id?.trim() === agencyId) &&
+  (role === undefined || record.role?.trim() === role);
+
+export function createMemoryFeeDataSource(fixture: FeeFixture): FeeDataSource {
+  const agencies = fixture.agencies ?? [];
+  const components = fixture.components ?? [];
+  const limits = fixture.limits ?? [];
+  const rules = fixture.rules ?? [];
+
+  return {
+    getFeeRules: async (query) =>
+      rules.filter((rule) => matchesQuery(rule, query)),
+    getComponents: async (componentIds) => {
+      const map = new Map<number, FeeComponent>();
+      components.forEach((component) => {
+        const feeComponent = toFeeComponent(component);
+        if (feeComponent && componentIds.includes(feeComponent.id)) {
+          map.set(feeComponent.id, feeComponent);
+        }
+      });
+      return map;
+    },
+    getAgencyCurrency: async (agencyId) => {
+      const agency = agencies.find((entry) => matchesAgency(entry, agencyId));
+      return getAgencyRecordCurrency(agency);
+    },
+    getAgencies: async () =>
+      agencies
+        .map((agency) => toFeeAgency(agency))
+        .filter((agency): agency is FeeAgency => Boolean(agency)),
+    getFeeLimits: async (query) =>
+      limits.find((limit) => matchesQuery(limit, query)) ?? null,
+  };
+}
+
+export async function loadFeeFixture(filePath: string): Promise<FeeFixture> {
+  const contents = await fs.readFile(filePath, 'utf8');
+  return JSON.parse(contents) as FeeFixture;
+}
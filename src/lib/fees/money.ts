@@ -0,0 +1,73 @@
+import type { CurrencyPrecision } from './types';
+
+// Fee amounts are held as integer minor units (cents, pence, yen) so sums are
+// exact. Anything fractional, such as a percentage adjustment or a converted
+// amount, is rounded half away from zero to the currency's minor unit.
+export const ROUNDING_MODE = 'half-away-from-zero';
+
+const DEFAULT_MINOR_UNITS = 2;
+
+// ISO 4217 exponents for currencies that do not use two decimal places.
+const CURRENCY_MINOR_UNITS: Record<string, number> = {
+  BHD: 3,
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  IQD: 3,
+  ISK: 0,
+  JOD: 3,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  PYG: 0,
+  RWF: 0,
+  TND: 3,
+  UGX: 0,
+  UYI: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+};
+
+export function getMinorUnits(currency: string): number {
+  return (
+    CURRENCY_MINOR_UNITS[currency.trim().toUpperCase()] ?? DEFAULT_MINOR_UNITS
+  );
+}
+
+export function getCurrencyPrecision(currency: string): CurrencyPrecision {
+  return { minorUnits: getMinorUnits(currency), roundingMode: ROUNDING_MODE };
+}
+
+export function roundMinor(value: number): number {
+  const rounded = Math.sign(value) * Math.round(Math.abs(value));
+  return rounded === 0 ? 0 : rounded;
+}
+
+// Shifting the decimal point through the string form avoids binary artefacts
+// such as 1.005 * 100 === 100.49999999999999.
+const shiftDecimal = (value: number, places: number) => {
+  const [mantissa, exponent = '0'] = String(value).split('e');
+  return Number(`${mantissa}e${Number(exponent) + places}`);
+};
+
+export function toMinorUnits(amount: number, currency: string): number {
+  return roundMinor(shiftDecimal(amount, getMinorUnits(currency)));
+}
+
+export function fromMinorUnits(amountMinor: number, currency: string): number {
+  return shiftDecimal(amountMinor, -getMinorUnits(currency));
+}
+
+export function applyPercentage(amountMinor: number, percentage: number) {
+  return roundMinor(shiftDecimal(amountMinor * percentage, -2));
+}
+
+export const sumMinor = (amounts: number[]) =>
+  amounts.reduce((total, amount) => total + amount, 0);
@@ -0,0 +1,203 @@
+import {
+  CHARGE_TYPES,
+  type AgencyRecord,
+  type FeeAgency,
+  type ChargeType,
+  type FeeComponent,
+  type FeeComponentRecord,
+  type FeeWarning,
+  type FeeWarningCode,
+  type UnitInput,
+} from './types';
+
+export function toNumber(value: unknown, fallback = 0): number {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    const parsed = Number(value);
+    if (!Number.isNaN(parsed) && Number.isFinite(parsed)) {
+      return parsed;
+    }
+  }
+
+  return fallback;
+}
+
+const unitWarning = (
+  code: FeeWarningCode,
+  field: string,
+  componentId: number | null,
+  message: string,
+): FeeWarning => ({ code, field, componentId, message });
+
+// Drops entries that cannot be priced and reports every dropped or suspicious
+// entry so callers can tell the applicant why a unit did not count.
+export function normaliseUnits(units: unknown): {
+  units: UnitInput[];
+  warnings: FeeWarning[];
+} {
+  if (units === undefined || units === null) {
+    return { units: [], warnings: [] };
+  }
+
+  if (!Array.isArray(units)) {
+    return {
+      units: [],
+      warnings: [
+        unitWarning(
+          'invalid-unit',
+          'units',
+          null,
+          'units must be an array; it was ignored.',
+        ),
+      ],
+    };
+  }
+
+  const normalised: UnitInput[] = [];
+  const warnings: FeeWarning[] = [];
+
+  units.forEach((unit, index) => {
+    const field = `units[${index}]`;
+    const componentId = toNumber((unit as UnitInput)?.componentId, NaN);
+    const quantity = toNumber((unit as UnitInput)?.quantity, NaN);
+
+    if (Number.isNaN(componentId)) {
+      warnings.push(
+        unitWarning(
+          'invalid-unit',
+          `${field}.componentId`,
+          null,
+          `Unit ${index + 1} has no valid componentId and was ignored.`,
+        ),
+      );
+      return;
+    }
+
+    if (Number.isNaN(quantity) || quantity < 0) {
+      warnings.push(
+        unitWarning(
+          'invalid-quantity',
+          `${field}.quantity`,
+          componentId,
+          `Component ${componentId} needs a quantity of zero or more; the entry was ignored.`,
+        ),
+      );
+      return;
+    }
+
+    if (!Number.isInteger(quantity)) {
+      warnings.push(
+        unitWarning(
+          'fractional-quantity',
+          `${field}.quantity`,
+          componentId,
+          `Component ${componentId} has a fractional quantity (${quantity}).`,
+        ),
+      );
+    }
+
+    if (normalised.some((entry) => entry.componentId === componentId)) {
+      warnings.push(
+        unitWarning(
+          'duplicate-component',
+          `${field}.componentId`,
+          componentId,
+          `Component ${componentId} is listed more than once; only the first entry is priced.`,
+        ),
+      );
+      return;
+    }
+
+    normalised.push({ componentId, quantity });
+  });
+
+  return { units: normalised, warnings };
+}
+
+export function getComponentRecordId(
+  component: FeeComponentRecord,
+): number | null {
+  const id = toNumber(
+    component.component_id ?? component.componentId,
+    Number.NaN,
+  );
+  return Number.isNaN(id) ? null : id;
+}
+
+export function getComponentRecordName(
+  component: FeeComponentRecord,
+): string | null {
+  return (
+    component.component_name?.trim() ||
+    component.display_name?.trim() ||
+    component.name?.trim() ||
+    null
+  );
+}
+
+export function normaliseChargeType(value: unknown): ChargeType | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const chargeType = value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-');
+  return CHARGE_TYPES.find((type) => type === chargeType) ?? null;
+}
+
+export function toFeeComponent(
+  component: FeeComponentRecord,
+): FeeComponent | null {
+  const id = getComponentRecordId(component);
+  if (id === null) {
+    return null;
+  }
+
+  const maxQuantity = toNumber(component.max_quantity, Number.NaN);
+
+  return {
+    id,
+    name: getComponentRecordName(component),
+    chargeType: normaliseChargeType(
+      component.charge_type ?? component.chargeType,
+    ),
+    inputLabel: component.input_label?.trim() || null,
+    minQuantity: Math.max(0, toNumber(component.min_quantity, 0)),
+    maxQuantity: Number.isNaN(maxQuantity) ? null : maxQuantity,
+    helpText: component.help_text?.trim() || null,
+    sortOrder: toNumber(component.sort_order, id),
+  };
+}
+
+export function getAgencyRecordCurrency(
+  record: AgencyRecord | null | undefined,
+): string | null {
+  return record?.currency?.trim() || record?.currency_code?.trim() || null;
+}
+
+export function toFeeAgency(record: AgencyRecord): FeeAgency | null {
+  const id = (record.agencyid ?? record.agency_id ?? record.id)?.trim();
+  if (!id) {
+    return null;
+  }
+
+  return {
+    id,
+    name: record.agencyname?.trim() || record.name?.trim() || id,
+    currency: getAgencyRecordCurrency(record),
+  };
+}
+
+export function normaliseCurrency(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const currency = value.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(currency) ? currency : null;
+}
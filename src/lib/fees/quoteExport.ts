@@ -0,0 +1,231 @@
+import { formatConversion, formatMoney } from '@/lib/format';
+import { fromMinorUnits, getMinorUnits } from './money';
+import { toCsvCell } from './scheduleTransfer';
+import {
+  QUOTE_EXPORT_FORMATS,
+  type FeeCalculationResult,
+  type QuoteDocument,
+  type QuoteExportFormat,
+} from './types';
+
+export const QUOTE_DISCLAIMER =
+  'This quote is an estimate calculated from the published fee schedule. The fee payable is the one the agency charges when the application is submitted.';
+
+const CSV_COLUMNS = [
+  'label',
+  'line_type',
+  'component_id',
+  'component_name',
+  'unit_price',
+  'submitted_quantity',
+  'included_quantity',
+  'billable_quantity',
+  'amount',
+  'currency',
+] as const;
+
+const CONTENT_TYPES: Record<QuoteExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json',
+  html: 'text/html; charset=utf-8',
+};
+
+export type QuoteExport = {
+  contentType: string;
+  fileName: string;
+  body: string;
+};
+
+export const normaliseQuoteExportFormat = (value: unknown) =>
+  QUOTE_EXPORT_FORMATS.find(
+    (format) => typeof value === 'string' && format === value.toLowerCase(),
+  ) ?? null;
+
+// Amounts are written from minor units so they match the calculation exactly
+// rather than whatever a float prints as.
+const toDecimal = (minor: number, currency: string) =>
+  fromMinorUnits(minor, currency).toFixed(getMinorUnits(currency));
+
+function serialiseQuoteCsv({ result }: QuoteDocument): string {
+  const unitPriceOf = (value: number | null) =>
+    value === null ? null : value.toFixed(getMinorUnits(result.currency));
+  const rows = result.feeBreakdown.map((item) => [
+    item.label,
+    item.lineType,
+    item.componentId,
+    item.componentName,
+    unitPriceOf(item.unitPrice),
+    item.submittedQuantity,
+    item.includedQuantity,
+    item.billableQuantity,
+    toDecimal(item.amountMinor, result.currency),
+    result.currency,
+  ]);
+  rows.push([
+    'Total',
+    'total',
+    null,
+    null,
+    null,
+    null,
+    null,
+    null,
+    toDecimal(result.totalFeeMinor, result.currency),
+    result.currency,
+  ]);
+
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...rows.map((row) => row.map((value) => toCsvCell(value)).join(',')),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+function serialiseQuoteJson(document: QuoteDocument): string {
+  return `${JSON.stringify(
+    {
+      quoteId: document.quoteId,
+      generatedAt: document.generatedAt,
+      agency: { id: document.inputs.agencyId, name: document.agencyName },
+      procedure: {
+        id: document.inputs.procedureId,
+        name: document.procedureName,
+      },
+      inputs: document.inputs,
+      result: document.result,
+      disclaimer: QUOTE_DISCLAIMER,
+    },
+    null,
+    2,
+  )}\n`;
+}
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const describeApplicant = ({ inputs }: QuoteDocument) => {
+  const applicant = inputs.applicant ?? {};
+  const details = [
+    applicant.companySize ? `${applicant.companySize} company` : null,
+    applicant.orphanDesignation ? 'orphan designation' : null,
+    applicant.paediatricIndication ? 'paediatric indication' : null,
+    applicant.publicHealthNonProfit ? 'public-health / non-profit' : null,
+  ].filter(Boolean);
+  return details.length > 0 ? details.join(', ') : 'Not specified';
+};
+
+const describeUnits = ({ inputs, result }: QuoteDocument) =>
+  inputs.units.map((unit) => {
+    const item = result.feeBreakdown.find(
+      (line) => line.componentId === unit.componentId,
+    );
+    return `<tr><td>${escapeHtml(
+      item?.componentName ?? `Component ${unit.componentId}`,
+    )}</td><td class="number">${escapeHtml(unit.quantity)}</td></tr>`;
+  });
+
+const describeTotal = (result: FeeCalculationResult) =>
+  result.conversion
+    ? `${escapeHtml(formatMoney(result.currency, result.totalFee))}<br /><span class="muted">≈ ${escapeHtml(
+        formatMoney(result.conversion.currency, result.conversion.totalFee),
+      )} (${escapeHtml(formatConversion(result.currency, result.conversion))})</span>`
+    : escapeHtml(formatMoney(result.currency, result.totalFee));
+
+function renderQuoteHtml(document: QuoteDocument): string {
+  const { inputs, result } = document;
+  const details: [string, string][] = [
+    ['Quote', document.quoteId ?? 'Not saved'],
+    ['Date', document.generatedAt.slice(0, 10)],
+    ['Agency', document.agencyName],
+    ['Procedure', document.procedureName],
+    ['Role', inputs.role],
+    ['Fees as of', result.schedule.asOfDate],
+    ['Schedule', result.schedule.version ?? 'Current schedule'],
+    ['Applicant', describeApplicant(document)],
+  ];
+  const units = describeUnits(document);
+  const breakdown = result.feeBreakdown.map(
+    (item) =>
+      `<tr><td>${escapeHtml(item.label)}</td><td class="number">${escapeHtml(
+        item.billableQuantity ?? '',
+      )}</td><td class="number">${escapeHtml(
+        formatMoney(result.currency, item.amount),
+      )}</td></tr>`,
+  );
+  const warnings = result.warnings.map(
+    (warning) => `<li>${escapeHtml(warning.message)}</li>`,
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Fee quote${document.quoteId ? ` ${escapeHtml(document.quoteId)}` : ''}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 2rem auto; max-width: 48rem; }
+  h1 { font-size: 1.5rem; margin-bottom: 1rem; }
+  h2 { font-size: 1rem; margin-top: 2rem; text-transform: uppercase; letter-spacing: 0.05em; color: #475569; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+  th, td { text-align: left; padding: 0.375rem 0.5rem; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  .number { text-align: right; }
+  .total td { font-weight: 600; border-top: 2px solid #0f172a; }
+  .muted { color: #64748b; font-weight: 400; font-size: 0.8125rem; }
+  .disclaimer { margin-top: 2rem; font-size: 0.75rem; color: #64748b; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    .no-print { display: none; }
+  }
+</style>
+</head>
+<body>
+<button type="button" class="no-print" onclick="window.print()">Print or save as PDF</button>
+<h1>Fee quote</h1>
+<table>
+${details
+  .map(
+    ([label, value]) =>
+      `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`,
+  )
+  .join('\n')}
+</table>
+<h2>Units</h2>
+${
+  units.length > 0
+    ? `<table><tr><th>Component</th><th class="number">Quantity</th></tr>\n${units.join('\n')}\n</table>`
+    : '<p class="muted">No billable units.</p>'
+}
+<h2>Breakdown</h2>
+<table>
+<tr><th>Line</th><th class="number">Billable</th><th class="number">Amount</th></tr>
+${breakdown.join('\n')}
+<tr class="total"><td colspan="2">Total</td><td class="number">${describeTotal(result)}</td></tr>
+</table>
+${warnings.length > 0 ? `<h2>Notes</h2>\n<ul>${warnings.join('')}</ul>` : ''}
+<p class="disclaimer">${escapeHtml(QUOTE_DISCLAIMER)}</p>
+</body>
+</html>
+`;
+}
+
+export function exportQuote(
+  document: QuoteDocument,
+  format: QuoteExportFormat,
+): QuoteExport {
+  const body =
+    format === 'csv'
+      ? serialiseQuoteCsv(document)
+      : format === 'json'
+        ? serialiseQuoteJson(document)
+        : renderQuoteHtml(document);
+  const name = document.quoteId ?? document.generatedAt.slice(0, 10);
+
+  return {
+    contentType: CONTENT_TYPES[format],
+    fileName: `fee-quote-${name}.${format}`,
+    body,
+  };
+}
@@ -0,0 +1,149 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseServerClient } from '@/lib/supabaseServer';
+import { toNumber } from './parse';
+import { todayIsoDate } from './schedule';
+import { getScheduleVersionIdAsOf } from './scheduleStore';
+import type {
+  FeeCalculationInput,
+  FeeCalculationResult,
+  FeeQuote,
+  FeeQuoteFilters,
+  FeeQuoteRecord,
+  FeeQuoteSummary,
+} from './types';
+
+const QUOTE_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const SUMMARY_COLUMNS =
+  'id, agency_id, procedure_id, role, currency, total_fee, schedule_version_id, created_at';
+
+const MAX_LISTED_QUOTES = 200;
+
+export const isQuoteId = (value: unknown): value is string =>
+  typeof value === 'string' && QUOTE_ID_PATTERN.test(value);
+
+function parseStoredJson<T>(value: T | string | null | undefined): T | null {
+  if (typeof value !== 'string') {
+    return value ?? null;
+  }
+
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export function toQuoteSummary(record: FeeQuoteRecord): FeeQuoteSummary | null {
+  if (!record.id || !record.agency_id) {
+    return null;
+  }
+
+  return {
+    id: record.id,
+    agencyId: record.agency_id,
+    procedureId: toNumber(record.procedure_id, Number.NaN),
+    role: record.role ?? '',
+    currency: record.currency ?? '',
+    totalFee: toNumber(record.total_fee),
+    scheduleVersionId: record.schedule_version_id ?? null,
+    createdAt: record.created_at ?? '',
+  };
+}
+
+export function toFeeQuote(record: FeeQuoteRecord): FeeQuote | null {
+  const summary = toQuoteSummary(record);
+  const inputs = parseStoredJson(record.inputs);
+  const result = parseStoredJson(record.result);
+  if (!summary || !inputs || !result) {
+    return null;
+  }
+
+  return { ...summary, inputs, result };
+}
+
+export async function saveQuote(
+  inputs: FeeCalculationInput,
+  result: FeeCalculationResult,
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<FeeQuote> {
+  const scheduleVersionId = await getScheduleVersionIdAsOf(
+    inputs.agencyId,
+    inputs.asOfDate ?? todayIsoDate(),
+    supabase,
+  );
+  const { data, error } = await supabase
+    .from('tbl_fee_quotes')
+    .insert({
+      agency_id: inputs.agencyId,
+      procedure_id: inputs.procedureId,
+      role: inputs.role,
+      currency: result.currency,
+      total_fee: result.totalFee,
+      schedule_version_id: scheduleVersionId,
+      inputs,
+      result,
+    })
+    .select('*')
+    .single();
+
+  const quote = error ? null : toFeeQuote(data as FeeQuoteRecord);
+  if (!quote) {
+    console.error('Saving quote failed:', error);
+    throw new Error('Unable to save the quote.');
+  }
+
+  return quote;
+}
+
+export async function getQuote(
+  id: string,
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<FeeQuote | null> {
+  const { data, error } = await supabase
+    .from('tbl_fee_quotes')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Quote lookup failed:', error);
+    throw new Error('Unable to load the quote.');
+  }
+
+  return data ? toFeeQuote(data as FeeQuoteRecord) : null;
+}
+
+export async function listQuotes(
+  { agencyId, procedureId, createdFrom, createdTo }: FeeQuoteFilters,
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<FeeQuoteSummary[]> {
+  let query = supabase.from('tbl_fee_quotes').select(SUMMARY_COLUMNS);
+
+  if (agencyId) {
+    query = query.eq('agency_id', agencyId);
+  }
+  if (procedureId !== undefined) {
+    query = query.eq('procedure_id', procedureId);
+  }
+  if (createdFrom) {
+    query = query.gte('created_at', `${createdFrom}T00:00:00Z`);
+  }
+  if (createdTo) {
+    query = query.lte('created_at', `${createdTo}T23:59:59.999Z`);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(MAX_LISTED_QUOTES);
+
+  if (error) {
+    console.error('Quotes query failed:', error);
+    throw new Error('Unable to load quotes.');
+  }
+
+  return ((data as FeeQuoteRecord[] | null) ?? [])
+    .map((record) => toQuoteSummary(record))
+    .filter((quote): quote is FeeQuoteSummary => Boolean(quote));
+}
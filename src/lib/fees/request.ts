@@ -0,0 +1,247 @@
+import { normaliseApplicantProfile } from './eligibility';
+import { normaliseCurrency, normaliseUnits } from './parse';
+import { normaliseAsOfDate } from './schedule';
+import type {
+  AgencyComparisonInput,
+  BatchScenario,
+  DecentralisedFeeInput,
+  FeeCalculationInput,
+  FeeQuoteFilters,
+} from './types';
+
+export const DEFAULT_REFERENCE_ROLE = 'RMS';
+export const DEFAULT_CONCERNED_ROLE = 'CMS';
+
+export type ParsedRequest<T> = { value: T } | { error: string };
+
+export function parseProcedureId(value: unknown): number {
+  return typeof value === 'number'
+    ? value
+    : typeof value === 'string'
+      ? Number(value)
+      : Number.NaN;
+}
+
+export function parseTargetCurrency(
+  value: unknown,
+): ParsedRequest<string | null> {
+  if (value === undefined || value === null || value === '') {
+    return { value: null };
+  }
+
+  const currency = normaliseCurrency(value);
+  return currency
+    ? { value: currency }
+    : { error: 'targetCurrency must be a three-letter currency code.' };
+}
+
+function parseScenarioFields(
+  data: Record<string, unknown>,
+): ParsedRequest<AgencyComparisonInput> {
+  const { procedureId, role, units, applicant, asOfDate: rawAsOfDate } = data;
+
+  const numericProcedureId = parseProcedureId(procedureId);
+  if (Number.isNaN(numericProcedureId)) {
+    return { error: 'procedureId must be a number.' };
+  }
+
+  if (typeof role !== 'string' || !role.trim()) {
+    return { error: 'role is required.' };
+  }
+
+  const asOfDate = normaliseAsOfDate(rawAsOfDate);
+  if (!asOfDate) {
+    return { error: 'asOfDate must be a date in YYYY-MM-DD format.' };
+  }
+
+  const { units: normalisedUnits, warnings } = normaliseUnits(units);
+
+  return {
+    value: {
+      procedureId: numericProcedureId,
+      role: role.trim(),
+      units: normalisedUnits,
+      applicant: normaliseApplicantProfile(applicant),
+      asOfDate,
+      warnings,
+    },
+  };
+}
+
+export function parseCalculationRequest(
+  body: unknown,
+): ParsedRequest<FeeCalculationInput> {
+  const data = (body ?? {}) as Record<string, unknown>;
+  const { agencyId } = data;
+
+  if (typeof agencyId !== 'string' || !agencyId.trim()) {
+    return { error: 'agencyId is required.' };
+  }
+
+  const parsed = parseScenarioFields(data);
+  return 'error' in parsed
+    ? parsed
+    : { value: { ...parsed.value, agencyId: agencyId.trim() } };
+}
+
+const toRole = (value: unknown, fallback: string) =>
+  typeof value === 'string' && value.trim() ? value.trim() : fallback;
+
+export function parseDecentralisedRequest(
+  body: unknown,
+): ParsedRequest<DecentralisedFeeInput> {
+  const data = (body ?? {}) as Record<string, unknown>;
+  const { referenceAgencyId } = data;
+
+  if (typeof referenceAgencyId !== 'string' || !referenceAgencyId.trim()) {
+    return { error: 'referenceAgencyId is required.' };
+  }
+
+  const referenceRole = toRole(data.referenceRole, DEFAULT_REFERENCE_ROLE);
+  const parsed = parseScenarioFields({ ...data, role: referenceRole });
+  if ('error' in parsed) {
+    return parsed;
+  }
+
+  if (!Array.isArray(data.concernedAgencyIds)) {
+    return { error: 'concernedAgencyIds must be an array of agency ids.' };
+  }
+
+  const trimmedReferenceId = referenceAgencyId.trim();
+  const concernedAgencyIds = Array.from(
+    new Set(
+      data.concernedAgencyIds
+        .filter((id): id is string => typeof id === 'string')
+        .map((id) => id.trim())
+        .filter((id) => id && id !== trimmedReferenceId),
+    ),
+  );
+
+  if (concernedAgencyIds.length === 0) {
+    return { error: 'At least one concerned agency is required.' };
+  }
+
+  if (
+    data.concernedRoles !== undefined &&
+    (typeof data.concernedRoles !== 'object' || data.concernedRoles === null)
+  ) {
+    return { error: 'concernedRoles must map agency ids to roles.' };
+  }
+
+  const concernedRoles = Object.fromEntries(
+    Object.entries((data.concernedRoles ?? {}) as Record<string, unknown>)
+      .map(([agencyId, role]) => [agencyId.trim(), toRole(role, '')])
+      .filter(
+        ([agencyId, role]) => role && concernedAgencyIds.includes(agencyId),
+      ),
+  );
+  const { procedureId, units, applicant, asOfDate, warnings } = parsed.value;
+
+  return {
+    value: {
+      procedureId,
+      units,
+      applicant,
+      asOfDate,
+      warnings,
+      referenceAgencyId: trimmedReferenceId,
+      referenceRole,
+      concernedAgencyIds,
+      concernedRole: toRole(data.concernedRole, DEFAULT_CONCERNED_ROLE),
+      concernedRoles,
+    },
+  };
+}
+
+export function parseBatchRequest(
+  body: unknown,
+  maxScenarios: number,
+): ParsedRequest<BatchScenario[]> {
+  const { scenarios } = (body ?? {}) as Record<string, unknown>;
+
+  if (!Array.isArray(scenarios) || scenarios.length === 0) {
+    return { error: 'scenarios must be a non-empty array.' };
+  }
+
+  if (scenarios.length > maxScenarios) {
+    return {
+      error: `A batch may contain at most ${maxScenarios} scenarios.`,
+    };
+  }
+
+  const seenIds = new Set<string>();
+
+  return {
+    value: scenarios.map((scenario, index) => {
+      const rawId = (scenario as { id?: unknown } | null)?.id;
+      const id =
+        typeof rawId === 'string' || typeof rawId === 'number'
+          ? String(rawId)
+          : String(index);
+
+      if (seenIds.has(id)) {
+        return { id, error: `Duplicate scenario id "${id}".` };
+      }
+      seenIds.add(id);
+
+      const parsed = parseCalculationRequest(scenario);
+      return 'error' in parsed
+        ? { id, error: parsed.error }
+        : { id, input: parsed.value };
+    }),
+  };
+}
+
+export function parseComparisonRequest(
+  body: unknown,
+): ParsedRequest<AgencyComparisonInput> {
+  return parseScenarioFields((body ?? {}) as Record<string, unknown>);
+}
+
+function parseOptionalDate(
+  value: string | undefined,
+  field: string,
+): ParsedRequest<string | undefined> {
+  if (value === undefined) {
+    return { value: undefined };
+  }
+
+  const date = normaliseAsOfDate(value);
+  return date
+    ? { value: date }
+    : { error: `${field} must be a date in YYYY-MM-DD format.` };
+}
+
+export function parseQuoteFilters(query: {
+  agencyId?: string;
+  procedureId?: string;
+  from?: string;
+  to?: string;
+}): ParsedRequest<FeeQuoteFilters> {
+  const procedureId =
+    query.procedureId === undefined
+      ? undefined
+      : parseProcedureId(query.procedureId);
+  if (Number.isNaN(procedureId)) {
+    return { error: 'procedureId must be a number.' };
+  }
+
+  const createdFrom = parseOptionalDate(query.from, 'from');
+  if ('error' in createdFrom) {
+    return createdFrom;
+  }
+
+  const createdTo = parseOptionalDate(query.to, 'to');
+  if ('error' in createdTo) {
+    return createdTo;
+  }
+
+  return {
+    value: {
+      agencyId: query.agencyId,
+      procedureId,
+      createdFrom: createdFrom.value,
+      createdTo: createdTo.value,
+    },
+  };
+}
@@ -0,0 +1,28 @@
+import { isRuleEffective, todayIsoDate } from './schedule';
+import type { FeeDataSource, FeeRoleOption } from './types';
+
+export async function listRoles(
+  procedureId: number,
+  agencyId: string | undefined,
+  dataSource: FeeDataSource,
+  asOfDate: string = todayIsoDate(),
+): Promise<FeeRoleOption[]> {
+  const rules = (await dataSource.getFeeRules({ procedureId })).filter((rule) =>
+    isRuleEffective(rule, asOfDate),
+  );
+
+  const roles = new Map<string, boolean>();
+  rules.forEach((rule) => {
+    const role = rule.role?.trim();
+    if (!role) {
+      return;
+    }
+
+    const isAvailable = !agencyId || rule.agency_id?.trim() === agencyId;
+    roles.set(role, (roles.get(role) ?? false) || isAvailable);
+  });
+
+  return Array.from(roles, ([name, available]) => ({ name, available })).sort(
+    (a, b) => a.name.localeCompare(b.name),
+  );
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { findDuplicateRule } from './ruleValidation';
+import { diffSchedule } from './scheduleTransfer';
+import type { FeeRuleRecord } from './types';
+
+const reduction = (overrides: FeeRuleRecord = {}): FeeRuleRecord => ({
+  agency_id: 'EMA',
+  procedure_id: 1,
+  role: 'RMS',
+  rule_kind: 'adjustment',
+  percentage: -50,
+  applies_to: 'total',
+  sequence: 1,
+  condition: 'sme',
+  ...overrides,
+});
+
+describe('findDuplicateRule', () => {
+  it('detects identical adjustment rules', () => {
+    const first = reduction();
+    const second = reduction();
+
+    expect(findDuplicateRule(second, [first, second])).toBe(first);
+  });
+
+  it('allows adjustments in different sequence positions', () => {
+    const first = reduction();
+    const second = reduction({ sequence: 2 });
+
+    expect(findDuplicateRule(second, [first, second])).toBeNull();
+  });
+});
+
+describe('diffSchedule', () => {
+  it('matches each existing adjustment rule at most once', () => {
+    const diff = diffSchedule(
+      [reduction({ id: 7 })],
+      [reduction(), reduction({ percentage: -40 })],
+    );
+
+    expect(diff.unchangedCount).toBe(1);
+    expect(diff.changed).toEqual([]);
+    expect(diff.added).toMatchObject([{ percentage: -40 }]);
+  });
+});
@@ -0,0 +1,335 @@
+import { isKnownCondition, normaliseCondition } from './eligibility';
+import {
+  getIncludedQuantity,
+  getRuleAdjustment,
+  getRuleBands,
+  getRuleComponentId,
+  getRuleId,
+  isAdjustmentRule,
+} from './engine';
+import { normaliseChargeType, toNumber } from './parse';
+import { getRuleValidity } from './schedule';
+import type {
+  FeeComponent,
+  FeeComponentRecord,
+  FeeRuleBandRecord,
+  FeeRuleRecord,
+} from './types';
+
+const RULE_NUMBER_FIELDS = [
+  'procedure_id',
+  'component_id',
+  'amount',
+  'included_quantity',
+  'min_amount',
+  'max_amount',
+  'percentage',
+  'target_component_id',
+  'sequence',
+] as const;
+
+const RULE_TEXT_FIELDS = [
+  'agency_id',
+  'role',
+  'component_name',
+  'rule_kind',
+  'applies_to',
+  'condition',
+  'valid_from',
+  'valid_to',
+  'schedule_version',
+] as const;
+
+const COMPONENT_NUMBER_FIELDS = [
+  'component_id',
+  'min_quantity',
+  'max_quantity',
+  'sort_order',
+] as const;
+
+const COMPONENT_TEXT_FIELDS = [
+  'name',
+  'charge_type',
+  'input_label',
+  'help_text',
+] as const;
+
+function pickNumber(value: unknown): number | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null || value === '') {
+    return null;
+  }
+  return toNumber(value, Number.NaN);
+}
+
+function pickText(value: unknown): string | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null) {
+    return null;
+  }
+  return String(value).trim() || null;
+}
+
+// Copies only the writable columns so request bodies cannot set ids or
+// unrelated columns. Fields that are absent stay absent, which lets the same
+// parser serve partial updates.
+export function pickFeeRuleFields(body: unknown): FeeRuleRecord {
+  const data = (body ?? {}) as Record<string, unknown>;
+  const rule: Record<string, unknown> = {};
+
+  RULE_NUMBER_FIELDS.forEach((field) => {
+    const value = pickNumber(data[field]);
+    if (value !== undefined) {
+      rule[field] = value;
+    }
+  });
+  RULE_TEXT_FIELDS.forEach((field) => {
+    const value = pickText(data[field]);
+    if (value !== undefined) {
+      rule[field] = value;
+    }
+  });
+
+  if (data.bands !== undefined) {
+    rule.bands = data.bands === '' ? null : data.bands;
+  }
+
+  return rule as FeeRuleRecord;
+}
+
+export function pickFeeComponentFields(body: unknown): FeeComponentRecord {
+  const data = (body ?? {}) as Record<string, unknown>;
+  const component: Record<string, unknown> = {};
+
+  COMPONENT_NUMBER_FIELDS.forEach((field) => {
+    const value = pickNumber(data[field]);
+    if (value !== undefined) {
+      component[field] = value;
+    }
+  });
+  COMPONENT_TEXT_FIELDS.forEach((field) => {
+    const value = pickText(data[field]);
+    if (value !== undefined) {
+      component[field] = value;
+    }
+  });
+
+  return component as FeeComponentRecord;
+}
+
+const isNegativeOrInvalid = (value: unknown) =>
+  value !== undefined && value !== null && !(toNumber(value, Number.NaN) >= 0);
+
+function validateBands(rule: FeeRuleRecord): string[] {
+  if (rule.bands === undefined || rule.bands === null) {
+    return [];
+  }
+
+  let rawBands: unknown = rule.bands;
+  if (typeof rawBands === 'string') {
+    try {
+      rawBands = JSON.parse(rawBands);
+    } catch {
+      return ['bands must be valid JSON.'];
+    }
+  }
+
+  if (!Array.isArray(rawBands)) {
+    return ['bands must be an array.'];
+  }
+
+  const errors: string[] = [];
+  (rawBands as FeeRuleBandRecord[]).forEach((band, index) => {
+    if (isNegativeOrInvalid(band?.amount)) {
+      errors.push(`bands[${index}].amount must be a non-negative number.`);
+    }
+  });
+
+  if (errors.length === 0 && getRuleBands(rule).length !== rawBands.length) {
+    errors.push('Each band needs a maximum quantity at or above its minimum.');
+  }
+
+  return errors;
+}
+
+const getConditionKey = (rule: FeeRuleRecord) =>
+  normaliseCondition(rule.condition) ?? '';
+
+function overlaps(a: FeeRuleRecord, b: FeeRuleRecord): boolean {
+  const first = getRuleValidity(a);
+  const second = getRuleValidity(b);
+  return (
+    (!first.validFrom ||
+      !second.validTo ||
+      first.validFrom <= second.validTo) &&
+    (!second.validFrom || !first.validTo || second.validFrom <= first.validTo)
+  );
+}
+
+// Pricing rules are identified by their component. Adjustment rules have no
+// component, so they are identified by what they apply to and their sequence.
+const getPricingKey = (rule: FeeRuleRecord) => {
+  const componentId = getRuleComponentId(rule);
+  return componentId !== null
+    ? `component:${componentId}`
+    : [
+        'adjustment',
+        rule.applies_to?.trim().toLowerCase() ?? '',
+        toNumber(rule.target_component_id, Number.NaN),
+        toNumber(rule.sequence, 0),
+      ].join(':');
+};
+
+export function findDuplicateRule(
+  rule: FeeRuleRecord,
+  siblings: FeeRuleRecord[],
+): FeeRuleRecord | null {
+  const pricingKey = getPricingKey(rule);
+  const ruleId = getRuleId(rule);
+  return (
+    siblings.find(
+      (sibling) =>
+        sibling !== rule &&
+        (ruleId === null || getRuleId(sibling) !== ruleId) &&
+        sibling.agency_id === rule.agency_id &&
+        toNumber(sibling.procedure_id, Number.NaN) ===
+          toNumber(rule.procedure_id, Number.NaN) &&
+        sibling.role === rule.role &&
+        getPricingKey(sibling) === pricingKey &&
+        getConditionKey(sibling) === getConditionKey(rule) &&
+        overlaps(sibling, rule),
+    ) ?? null
+  );
+}
+
+// Applies the same readings of a rule that the engine uses when pricing, so a
+// rule that passes here is one the engine will price rather than skip.
+export function validateFeeRule(
+  rule: FeeRuleRecord,
+  components: Map<number, FeeComponent>,
+  siblings: FeeRuleRecord[],
+): string[] {
+  const errors: string[] = [];
+
+  if (!rule.agency_id?.trim()) {
+    errors.push('agency_id is required.');
+  }
+  if (Number.isNaN(toNumber(rule.procedure_id, Number.NaN))) {
+    errors.push('procedure_id must be a number.');
+  }
+  if (!rule.role?.trim()) {
+    errors.push('role is required.');
+  }
+
+  (['amount', 'min_amount', 'max_amount'] as const).forEach((field) => {
+    if (isNegativeOrInvalid(rule[field])) {
+      errors.push(`${field} must be a non-negative number.`);
+    }
+  });
+
+  const minAmount = toNumber(rule.min_amount, Number.NaN);
+  const maxAmount = toNumber(rule.max_amount, Number.NaN);
+  if (minAmount > maxAmount) {
+    errors.push('min_amount cannot be greater than max_amount.');
+  }
+
+  if (
+    isNegativeOrInvalid(rule.included_quantity) ||
+    !Number.isInteger(getIncludedQuantity(rule))
+  ) {
+    errors.push('included_quantity must be a non-negative whole number.');
+  }
+
+  errors.push(...validateBands(rule));
+
+  const componentId = getRuleComponentId(rule);
+  if (isAdjustmentRule(rule, components)) {
+    const adjustment = getRuleAdjustment(rule, components);
+    if (!adjustment) {
+      errors.push(
+        'Adjustment rules need a non-zero percentage and applies_to of base, component or total.',
+      );
+    } else if (
+      adjustment.targetComponentId !== null &&
+      !components.has(adjustment.targetComponentId)
+    ) {
+      errors.push(
+        `target_component_id ${adjustment.targetComponentId} is not a known component.`,
+      );
+    }
+  } else if (componentId === null || componentId <= 0) {
+    errors.push('component_id is required for pricing rules.');
+  } else if (!components.get(componentId)?.chargeType) {
+    errors.push(
+      components.has(componentId)
+        ? `Component ${componentId} has no known charge type.`
+        : `component_id ${componentId} is not a known component.`,
+    );
+  }
+
+  const condition = normaliseCondition(rule.condition);
+  if (condition && !isKnownCondition(condition)) {
+    errors.push(`condition "${rule.condition}" is not a recognised condition.`);
+  }
+
+  const { validFrom, validTo } = getRuleValidity(rule);
+  if (rule.valid_from && !validFrom) {
+    errors.push('valid_from must be a date in YYYY-MM-DD format.');
+  }
+  if (rule.valid_to && !validTo) {
+    errors.push('valid_to must be a date in YYYY-MM-DD format.');
+  }
+  if (validFrom && validTo && validFrom > validTo) {
+    errors.push('valid_from cannot be after valid_to.');
+  }
+
+  const duplicate = findDuplicateRule(rule, siblings);
+  if (duplicate) {
+    const duplicateId = getRuleId(duplicate);
+    errors.push(
+      `${duplicateId === null ? 'Another rule' : `Rule ${duplicateId}`} already ${
+        componentId === null
+          ? 'applies the same adjustment in this sequence position'
+          : `prices component ${componentId}`
+      } for this agency, procedure, role and condition in an overlapping period.`,
+    );
+  }
+
+  return errors;
+}
+
+export function validateFeeComponent(component: FeeComponentRecord): string[] {
+  const errors: string[] = [];
+
+  if (!component.name?.trim()) {
+    errors.push('name is required.');
+  }
+  if (!normaliseChargeType(component.charge_type)) {
+    errors.push('charge_type must be flat, per-unit or percentage.');
+  }
+
+  (['min_quantity', 'max_quantity'] as const).forEach((field) => {
+    const value = component[field];
+    if (
+      isNegativeOrInvalid(value) ||
+      (value !== undefined &&
+        value !== null &&
+        !Number.isInteger(toNumber(value)))
+    ) {
+      errors.push(`${field} must be a non-negative whole number.`);
+    }
+  });
+
+  if (
+    toNumber(component.max_quantity, Number.NaN) <
+    toNumber(component.min_quantity, 0)
+  ) {
+    errors.push('max_quantity cannot be less than min_quantity.');
+  }
+
+  return errors;
+}
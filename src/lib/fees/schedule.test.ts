@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { normaliseAsOfDate, todayIsoDate } from './schedule';
+
+describe('normaliseAsOfDate', () => {
+  it('defaults to today when no date is given', () => {
+    expect(normaliseAsOfDate(undefined)).toBe(todayIsoDate());
+    expect(normaliseAsOfDate('')).toBe(todayIsoDate());
+  });
+
+  it('accepts real ISO dates', () => {
+    expect(normaliseAsOfDate(' 2024-02-29 ')).toBe('2024-02-29');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(normaliseAsOfDate('2026-02-31')).toBeNull();
+    expect(normaliseAsOfDate('2025-02-29')).toBeNull();
+    expect(normaliseAsOfDate('2026-13-01')).toBeNull();
+    expect(normaliseAsOfDate('2026-6-1')).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import type { FeeRuleRecord, FeeScheduleInfo } from './types';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const todayIsoDate = () => new Date().toISOString().slice(0, 10);
+
+export function normaliseAsOfDate(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') {
+    return todayIsoDate();
+  }
+
+  if (typeof value !== 'string' || !ISO_DATE_PATTERN.test(value.trim())) {
+    return null;
+  }
+
+  // Dates that do not exist, such as 2026-02-31, roll over when parsed.
+  const date = value.trim();
+  const parsed = new Date(date);
+  return !Number.isNaN(parsed.getTime()) &&
+    parsed.toISOString().slice(0, 10) === date
+    ? date
+    : null;
+}
+
+function toIsoDate(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  const date = value.trim().slice(0, 10);
+  return ISO_DATE_PATTERN.test(date) ? date : null;
+}
+
+export function getRuleValidity(rule: FeeRuleRecord) {
+  return {
+    validFrom: toIsoDate(rule.valid_from ?? rule.validFrom),
+    validTo: toIsoDate(rule.valid_to ?? rule.validTo),
+  };
+}
+
+export function isRuleEffective(rule: FeeRuleRecord, asOfDate: string) {
+  const { validFrom, validTo } = getRuleValidity(rule);
+  return (
+    (!validFrom || validFrom <= asOfDate) && (!validTo || validTo >= asOfDate)
+  );
+}
+
+export function describeSchedule(
+  rules: FeeRuleRecord[],
+  asOfDate: string,
+): FeeScheduleInfo {
+  let effectiveFrom: string | null = null;
+  let effectiveTo: string | null = null;
+  const versions = new Set<string>();
+
+  rules.forEach((rule) => {
+    const { validFrom, validTo } = getRuleValidity(rule);
+    if (validFrom && (!effectiveFrom || validFrom > effectiveFrom)) {
+      effectiveFrom = validFrom;
+    }
+    if (validTo && (!effectiveTo || validTo < effectiveTo)) {
+      effectiveTo = validTo;
+    }
+
+    const version = rule.schedule_version?.trim();
+    if (version) {
+      versions.add(version);
+    }
+  });
+
+  return {
+    asOfDate,
+    version: versions.size > 0 ? Array.from(versions).join(', ') : null,
+    effectiveFrom,
+    effectiveTo,
+  };
+}
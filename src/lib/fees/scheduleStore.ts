@@ -0,0 +1,345 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseServerClient } from '@/lib/supabaseServer';
+import { getReferencedComponentIds } from './engine';
+import { validateFeeRule } from './ruleValidation';
+import { createSupabaseFeeDataSource } from './supabaseDataSource';
+import type {
+  FeeComponentRecord,
+  FeeRuleRecord,
+  FeeScheduleVersionRecord,
+  ScheduleDiff,
+  ScheduleRowError,
+} from './types';
+
+export async function listScheduleRules(
+  { agencyId, procedureId }: { agencyId: string; procedureId: number },
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<FeeRuleRecord[]> {
+  const { data, error } = await supabase
+    .from('tbl_fee_rules')
+    .select('*')
+    .eq('agency_id', agencyId)
+    .eq('procedure_id', procedureId)
+    .order('role', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) {
+    console.error('Schedule rules query failed:', error);
+    throw new Error('Unable to load the fee schedule.');
+  }
+
+  return (data as FeeRuleRecord[] | null) ?? [];
+}
+
+export async function listAgencyRules(
+  agencyId: string,
+  procedureIds?: number[],
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<FeeRuleRecord[]> {
+  let query = supabase
+    .from('tbl_fee_rules')
+    .select('*')
+    .eq('agency_id', agencyId);
+
+  if (procedureIds) {
+    query = query.in('procedure_id', procedureIds);
+  }
+
+  const { data, error } = await query
+    .order('procedure_id', { ascending: true })
+    .order('role', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) {
+    console.error('Agency schedule query failed:', error);
+    throw new Error('Unable to load the fee schedule.');
+  }
+
+  return (data as FeeRuleRecord[] | null) ?? [];
+}
+
+export async function getFeeRule(
+  id: number,
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<FeeRuleRecord | null> {
+  const { data, error } = await supabase
+    .from('tbl_fee_rules')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Fee rule lookup failed:', error);
+    throw new Error('Unable to load the fee rule.');
+  }
+
+  return (data as FeeRuleRecord | null) ?? null;
+}
+
+// Checks a rule against the components it references and the other rules for
+// the same agency, procedure and role.
+export async function checkFeeRule(
+  rule: FeeRuleRecord,
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<string[]> {
+  const components = await createSupabaseFeeDataSource(supabase).getComponents(
+    getReferencedComponentIds([rule]),
+  );
+
+  let siblings: FeeRuleRecord[] = [];
+  if (rule.agency_id && rule.role && typeof rule.procedure_id === 'number') {
+    const { data, error } = await supabase
+      .from('tbl_fee_rules')
+      .select('*')
+      .eq('agency_id', rule.agency_id)
+      .eq('procedure_id', rule.procedure_id)
+      .eq('role', rule.role);
+
+    if (error) {
+      console.error('Sibling rule lookup failed:', error);
+      throw new Error('Unable to validate the fee rule.');
+    }
+    siblings = (data as FeeRuleRecord[] | null) ?? [];
+  }
+
+  return validateFeeRule(rule, components, siblings);
+}
+
+// Validates a whole imported schedule at once: the imported rows replace the
+// current ones, so duplicates are checked among the imported rows only.
+export async function checkScheduleRules(
+  rules: FeeRuleRecord[],
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<ScheduleRowError[]> {
+  const components = await createSupabaseFeeDataSource(supabase).getComponents(
+    getReferencedComponentIds(rules),
+  );
+
+  return rules
+    .map((rule, index) => ({
+      row: index + 1,
+      errors: validateFeeRule(rule, components, rules),
+    }))
+    .filter((result) => result.errors.length > 0);
+}
+
+// Rule writes go through database functions that also record the agency's
+// schedule version, so a change and its snapshot commit or roll back
+// together; see supabase/migrations for their definitions.
+export async function applyScheduleDiff(
+  agencyId: string,
+  diff: ScheduleDiff,
+  versionName: string,
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<void> {
+  const { error } = await supabase.rpc('apply_fee_schedule_import', {
+    target_agency_id: agencyId,
+    version_name: versionName,
+    delete_ids: diff.removed.map((rule) => rule.id),
+    updates: diff.changed.map((change) => change.after),
+    inserts: diff.added,
+  });
+
+  if (error) {
+    console.error('Applying schedule import failed:', error);
+    throw new Error('Unable to apply the schedule import.');
+  }
+}
+
+export async function saveFeeRule(
+  rule: FeeRuleRecord,
+  versionName: string,
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<FeeRuleRecord> {
+  const { id, ...fields } = rule;
+  const { data, error } = await supabase.rpc('save_fee_rule', {
+    rule_id: id ?? null,
+    fields,
+    version_name: versionName,
+  });
+
+  if (error || !data) {
+    console.error('Saving fee rule failed:', error);
+    throw new Error('Unable to save the fee rule.');
+  }
+
+  return data as FeeRuleRecord;
+}
+
+export async function deleteFeeRule(
+  id: number,
+  versionName: string,
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('delete_fee_rule', {
+    rule_id: id,
+    version_name: versionName,
+  });
+
+  if (error) {
+    console.error('Deleting fee rule failed:', error);
+    throw new Error('Unable to delete the fee rule.');
+  }
+
+  return data === true;
+}
+
+export async function listFeeComponents(
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<FeeComponentRecord[]> {
+  const { data, error } = await supabase
+    .from('tbl_fee_components')
+    .select('*')
+    .order('component_id', { ascending: true });
+
+  if (error) {
+    console.error('Fee components query failed:', error);
+    throw new Error('Unable to load fee components.');
+  }
+
+  return (data as FeeComponentRecord[] | null) ?? [];
+}
+
+export async function getFeeComponent(
+  id: number,
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<FeeComponentRecord | null> {
+  const { data, error } = await supabase
+    .from('tbl_fee_components')
+    .select('*')
+    .eq('component_id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Fee component lookup failed:', error);
+    throw new Error('Unable to load the fee component.');
+  }
+
+  return (data as FeeComponentRecord | null) ?? null;
+}
+
+export async function saveFeeComponent(
+  component: FeeComponentRecord,
+  existingId: number | null,
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<FeeComponentRecord> {
+  const query =
+    existingId === null
+      ? supabase.from('tbl_fee_components').insert(component)
+      : supabase
+          .from('tbl_fee_components')
+          .update(component)
+          .eq('component_id', existingId);
+  const { data, error } = await query.select('*').single();
+
+  if (error) {
+    console.error('Saving fee component failed:', error);
+    throw new Error('Unable to save the fee component.');
+  }
+
+  return data as FeeComponentRecord;
+}
+
+export async function countComponentRules(
+  id: number,
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<number> {
+  const [byComponent, byTarget] = await Promise.all([
+    supabase
+      .from('tbl_fee_rules')
+      .select('id', { count: 'exact', head: true })
+      .eq('component_id', id),
+    supabase
+      .from('tbl_fee_rules')
+      .select('id', { count: 'exact', head: true })
+      .eq('target_component_id', id),
+  ]);
+
+  if (byComponent.error || byTarget.error) {
+    console.error(
+      'Component reference lookup failed:',
+      byComponent.error ?? byTarget.error,
+    );
+    throw new Error('Unable to check where the component is used.');
+  }
+
+  return (byComponent.count ?? 0) + (byTarget.count ?? 0);
+}
+
+export async function deleteFeeComponent(
+  id: number,
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('tbl_fee_components')
+    .delete()
+    .eq('component_id', id)
+    .select('component_id');
+
+  if (error) {
+    console.error('Deleting fee component failed:', error);
+    throw new Error('Unable to delete the fee component.');
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+export async function listScheduleVersions(
+  agencyId: string,
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<FeeScheduleVersionRecord[]> {
+  const { data, error } = await supabase
+    .from('tbl_fee_schedule_versions')
+    .select('*')
+    .eq('agency_id', agencyId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Schedule versions query failed:', error);
+    throw new Error('Unable to load schedule versions.');
+  }
+
+  return (data as FeeScheduleVersionRecord[] | null) ?? [];
+}
+
+export async function getScheduleVersion(
+  id: number,
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<FeeScheduleVersionRecord | null> {
+  const { data, error } = await supabase
+    .from('tbl_fee_schedule_versions')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Schedule version lookup failed:', error);
+    throw new Error('Unable to load the schedule version.');
+  }
+
+  return (data as FeeScheduleVersionRecord | null) ?? null;
+}
+
+// The newest version recorded by the end of `asOfDate`, i.e. the schedule as
+// it stood on that day.
+export async function getScheduleVersionIdAsOf(
+  agencyId: string,
+  asOfDate: string,
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('tbl_fee_schedule_versions')
+    .select('id')
+    .eq('agency_id', agencyId)
+    .lte('created_at', `${asOfDate}T23:59:59.999Z`)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Schedule version lookup failed:', error);
+    throw new Error('Unable to load the schedule version.');
+  }
+
+  return (data as { id: number } | null)?.id ?? null;
+}
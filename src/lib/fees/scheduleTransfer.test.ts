@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { diffSchedule, parseScheduleFile } from './scheduleTransfer';
+
+describe('parseScheduleFile', () => {
+  it('applies the column defaults to blank CSV cells', () => {
+    const parsed = parseScheduleFile(
+      [
+        'procedure_id,role,component_id,amount,included_quantity,sequence',
+        '1,RMS,1,1000,,',
+      ].join('\r\n'),
+      'csv',
+      'EMA',
+    );
+
+    if ('error' in parsed) {
+      throw new Error(parsed.error);
+    }
+
+    expect(parsed.value).toMatchObject([
+      { agency_id: 'EMA', included_quantity: 0, sequence: 0 },
+    ]);
+    expect(
+      diffSchedule(
+        [
+          {
+            id: 4,
+            agency_id: 'EMA',
+            procedure_id: 1,
+            role: 'RMS',
+            component_id: 1,
+            amount: 1000,
+            included_quantity: 0,
+            sequence: 0,
+          },
+        ],
+        parsed.value,
+      ),
+    ).toMatchObject({ added: [], changed: [], removed: [], unchangedCount: 1 });
+  });
+});
@@ -0,0 +1,285 @@
+import { normaliseCondition } from './eligibility';
+import { getRuleBands, getRuleComponentId } from './engine';
+import { toNumber } from './parse';
+import type { ParsedRequest } from './request';
+import { pickFeeRuleFields } from './ruleValidation';
+import { getRuleValidity } from './schedule';
+import {
+  SCHEDULE_FORMATS,
+  type FeeRuleRecord,
+  type ScheduleDiff,
+  type ScheduleFormat,
+  type ScheduleRuleChange,
+} from './types';
+
+export const SCHEDULE_COLUMNS = [
+  'id',
+  'agency_id',
+  'procedure_id',
+  'role',
+  'component_id',
+  'component_name',
+  'amount',
+  'included_quantity',
+  'bands',
+  'min_amount',
+  'max_amount',
+  'rule_kind',
+  'percentage',
+  'applies_to',
+  'target_component_id',
+  'sequence',
+  'condition',
+  'valid_from',
+  'valid_to',
+  'schedule_version',
+] as const;
+
+type ScheduleColumn = (typeof SCHEDULE_COLUMNS)[number];
+
+const COMPARED_COLUMNS = SCHEDULE_COLUMNS.filter(
+  (column) => column !== 'id' && column !== 'agency_id',
+);
+
+// Blank cells take the defaults the table applies, so a hand-written file
+// matches the stored rules and an import never writes nulls to these columns.
+const COLUMN_DEFAULTS: Partial<Record<ScheduleColumn, number>> = {
+  included_quantity: 0,
+  sequence: 0,
+};
+
+const withColumnDefaults = (rule: FeeRuleRecord): FeeRuleRecord => ({
+  ...rule,
+  ...Object.fromEntries(
+    Object.entries(COLUMN_DEFAULTS).map(([column, value]) => [
+      column,
+      rule[column as ScheduleColumn] ?? value,
+    ]),
+  ),
+});
+
+export const normaliseScheduleFormat = (value: unknown) =>
+  SCHEDULE_FORMATS.find(
+    (format) => typeof value === 'string' && format === value.toLowerCase(),
+  ) ?? null;
+
+export const toCsvCell = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  const text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function serialiseSchedule(
+  rules: FeeRuleRecord[],
+  format: ScheduleFormat,
+): string {
+  if (format === 'json') {
+    const rows = rules.map((rule) =>
+      Object.fromEntries(
+        SCHEDULE_COLUMNS.map((column) => [column, rule[column] ?? null]),
+      ),
+    );
+    return `${JSON.stringify(rows, null, 2)}\n`;
+  }
+
+  const lines = [
+    SCHEDULE_COLUMNS.join(','),
+    ...rules.map((rule) =>
+      SCHEDULE_COLUMNS.map((column) => toCsvCell(rule[column])).join(','),
+    ),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+// RFC 4180: fields may be quoted, quoted fields may contain commas, line
+// breaks and doubled quotes.
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let isQuoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (isQuoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      isQuoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+function toImportedRule(raw: unknown, agencyId: string): FeeRuleRecord {
+  const rule = withColumnDefaults({
+    ...pickFeeRuleFields(raw),
+    agency_id: agencyId,
+  });
+
+  if (typeof rule.bands === 'string') {
+    try {
+      rule.bands = JSON.parse(rule.bands);
+    } catch {
+      // Left as text so validation reports the malformed bands.
+    }
+  }
+
+  const id = toNumber((raw as { id?: unknown } | null)?.id, Number.NaN);
+  return Number.isInteger(id) ? { ...rule, id } : rule;
+}
+
+export function parseScheduleFile(
+  content: unknown,
+  format: ScheduleFormat,
+  agencyId: string,
+): ParsedRequest<FeeRuleRecord[]> {
+  let records: unknown[];
+
+  if (format === 'json') {
+    let parsed = content;
+    if (typeof content === 'string') {
+      try {
+        parsed = JSON.parse(content);
+      } catch {
+        return { error: 'The file is not valid JSON.' };
+      }
+    }
+    if (!Array.isArray(parsed)) {
+      return { error: 'A JSON schedule must be an array of rules.' };
+    }
+    records = parsed;
+  } else {
+    if (typeof content !== 'string') {
+      return { error: 'A CSV schedule must be sent as text.' };
+    }
+
+    const [header, ...rows] = parseCsvRows(content);
+    const columns = header?.map((cell) => cell.trim().toLowerCase()) ?? [];
+    const unknownColumns = columns.filter(
+      (column) => !SCHEDULE_COLUMNS.includes(column as ScheduleColumn),
+    );
+    if (columns.length === 0 || unknownColumns.length > 0) {
+      return {
+        error:
+          columns.length === 0
+            ? 'The CSV file has no header row.'
+            : `Unknown CSV columns: ${unknownColumns.join(', ')}.`,
+      };
+    }
+
+    records = rows.map((cells) =>
+      Object.fromEntries(
+        columns.map((column, index) => [column, cells[index] ?? '']),
+      ),
+    );
+  }
+
+  if (records.length === 0) {
+    return { error: 'The file does not contain any rules.' };
+  }
+
+  return { value: records.map((record) => toImportedRule(record, agencyId)) };
+}
+
+export function getRuleKey(rule: FeeRuleRecord): string {
+  return [
+    toNumber(rule.procedure_id, Number.NaN),
+    rule.role?.trim() ?? '',
+    getRuleComponentId(rule) ?? '',
+    rule.rule_kind?.trim().toLowerCase() ?? '',
+    rule.applies_to?.trim().toLowerCase() ?? '',
+    toNumber(rule.target_component_id, Number.NaN),
+    toNumber(rule.sequence, 0),
+    normaliseCondition(rule.condition) ?? '',
+    getRuleValidity(rule).validFrom ?? '',
+  ].join('|');
+}
+
+function toComparable(rule: FeeRuleRecord, column: ScheduleColumn): string {
+  if (column === 'bands') {
+    return JSON.stringify(getRuleBands(rule));
+  }
+
+  const value = rule[column] ?? COLUMN_DEFAULTS[column];
+  if (value === undefined || value === null || value === '') {
+    return '';
+  }
+
+  const numeric = toNumber(value, Number.NaN);
+  return Number.isNaN(numeric) ? String(value).trim() : String(numeric);
+}
+
+export function diffSchedule(
+  current: FeeRuleRecord[],
+  incoming: FeeRuleRecord[],
+): ScheduleDiff {
+  const currentByKey = new Map(current.map((rule) => [getRuleKey(rule), rule]));
+  const matchedKeys = new Set<string>();
+  const added: FeeRuleRecord[] = [];
+  const changed: ScheduleRuleChange[] = [];
+  let unchangedCount = 0;
+
+  incoming.forEach((rule) => {
+    const key = getRuleKey(rule);
+    const before = matchedKeys.has(key) ? undefined : currentByKey.get(key);
+
+    if (!before) {
+      const addedRule = { ...rule };
+      delete addedRule.id;
+      added.push(addedRule);
+      return;
+    }
+
+    matchedKeys.add(key);
+    const fields = COMPARED_COLUMNS.filter(
+      (column) => toComparable(before, column) !== toComparable(rule, column),
+    );
+
+    if (fields.length === 0) {
+      unchangedCount += 1;
+    } else {
+      changed.push({ before, after: { ...rule, id: before.id }, fields });
+    }
+  });
+
+  return {
+    added,
+    changed,
+    removed: current.filter((rule) => !matchedKeys.has(getRuleKey(rule))),
+    unchangedCount,
+  };
+}
@@ -0,0 +1,155 @@
+import { createMemoryFeeDataSource } from './memoryDataSource';
+import { fromMinorUnits } from './money';
+import { toNumber } from './parse';
+import { normaliseAsOfDate, todayIsoDate } from './schedule';
+import { diffSchedule } from './scheduleTransfer';
+import type {
+  FeeCalculationResult,
+  FeeDataSource,
+  FeeRuleRecord,
+  FeeScheduleVersion,
+  FeeScheduleVersionRecord,
+  ScheduleValueChange,
+  ScheduleVersionDiff,
+  ScheduleVersionImpact,
+} from './types';
+
+const MAX_VERSION_NAME_LENGTH = 120;
+
+export function parseVersionName(value: unknown): string {
+  const name =
+    typeof value === 'string'
+      ? value.trim().slice(0, MAX_VERSION_NAME_LENGTH)
+      : '';
+  return name || new Date().toISOString();
+}
+
+export function getVersionRules(
+  record: FeeScheduleVersionRecord,
+): FeeRuleRecord[] {
+  let rules: unknown = record.rules;
+  if (typeof rules === 'string') {
+    try {
+      rules = JSON.parse(rules);
+    } catch {
+      console.warn('Ignoring malformed schedule version rules:', record.id);
+      return [];
+    }
+  }
+
+  return Array.isArray(rules) ? (rules as FeeRuleRecord[]) : [];
+}
+
+export function toScheduleVersion(
+  record: FeeScheduleVersionRecord,
+): FeeScheduleVersion | null {
+  const id = toNumber(record.id, Number.NaN);
+  if (Number.isNaN(id) || !record.agency_id) {
+    return null;
+  }
+
+  return {
+    id,
+    agencyId: record.agency_id,
+    name: record.name?.trim() || `Version ${id}`,
+    createdAt: record.created_at ?? '',
+    ruleCount: getVersionRules(record).length,
+  };
+}
+
+const toOptionalNumber = (value: unknown) => {
+  const number = toNumber(value, Number.NaN);
+  return Number.isNaN(number) ? null : number;
+};
+
+export const percentChange = (before: number | null, after: number | null) =>
+  before === null || after === null || before === 0
+    ? null
+    : Math.round(((after - before) / before) * 10000) / 100;
+
+const describeValueChange = (
+  before: unknown,
+  after: unknown,
+): ScheduleValueChange => {
+  const beforeValue = toOptionalNumber(before);
+  const afterValue = toOptionalNumber(after);
+  return {
+    before: beforeValue,
+    after: afterValue,
+    percentChange: percentChange(beforeValue, afterValue),
+  };
+};
+
+export function diffScheduleVersions(
+  from: FeeScheduleVersionRecord,
+  to: FeeScheduleVersionRecord,
+  procedureId?: number,
+): ScheduleVersionDiff | null {
+  const fromVersion = toScheduleVersion(from);
+  const toVersion = toScheduleVersion(to);
+  if (!fromVersion || !toVersion) {
+    return null;
+  }
+
+  const forProcedure = (rules: FeeRuleRecord[]) =>
+    procedureId === undefined
+      ? rules
+      : rules.filter(
+          (rule) => toNumber(rule.procedure_id, Number.NaN) === procedureId,
+        );
+  const diff = diffSchedule(
+    forProcedure(getVersionRules(from)),
+    forProcedure(getVersionRules(to)),
+  );
+
+  return {
+    ...diff,
+    from: fromVersion,
+    to: toVersion,
+    changed: diff.changed.map((change) => ({
+      ...change,
+      amount: describeValueChange(change.before.amount, change.after.amount),
+      includedQuantity: describeValueChange(
+        change.before.included_quantity,
+        change.after.included_quantity,
+      ),
+    })),
+  };
+}
+
+// A version is priced on the day it was recorded unless another date is given,
+// so rules that have since expired still apply to it.
+export const getVersionAsOfDate = (record: FeeScheduleVersionRecord) =>
+  normaliseAsOfDate(record.created_at?.slice(0, 10)) ?? todayIsoDate();
+
+// Only rules are snapshotted in a version. Components, limits and agency
+// currencies are not versioned, so every version is priced with their current
+// values.
+export const IMPACT_NOTE =
+  'Only fee rules are versioned. Components, procedure limits and currencies are priced as they are now for both versions.';
+
+// Prices against a version's rules while components, limits and agency
+// currencies still come from the live data source.
+export const withScheduleRules = (
+  dataSource: FeeDataSource,
+  rules: FeeRuleRecord[],
+): FeeDataSource => ({
+  ...dataSource,
+  getFeeRules: createMemoryFeeDataSource({ rules }).getFeeRules,
+});
+
+export function describeImpact(
+  from: FeeCalculationResult,
+  to: FeeCalculationResult,
+): ScheduleVersionImpact {
+  return {
+    from,
+    to,
+    difference: fromMinorUnits(
+      to.totalFeeMinor - from.totalFeeMinor,
+      to.currency,
+    ),
+    percentChange: percentChange(from.totalFee, to.totalFee),
+    note: IMPACT_NOTE,
+  };
+}
@@ -0,0 +1,217 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseServerClient } from '@/lib/supabaseServer';
+import { getReferencedComponentIds } from './engine';
+import type { FeeFixture } from './memoryDataSource';
+import { getAgencyRecordCurrency, toFeeAgency, toFeeComponent } from './parse';
+import type {
+  AgencyRecord,
+  FeeAgency,
+  FeeComponent,
+  FeeComponentRecord,
+  FeeDataSource,
+  FeeLimitRecord,
+  FeeRuleRecord,
+} from './types';
+
+async function fetchAgencyCurrency(
+  supabase: SupabaseClient,
+  agencyId: string,
+): Promise<string | null> {
+  const trimmedId = agencyId.trim();
+  try {
+    const { data, error } = await supabase
+      .from('tbl_agencies')
+      .select('currency,currency_code')
+      .eq('agency_id', trimmedId)
+      .maybeSingle();
+
+    if (error) {
+      console.warn('Agency currency lookup error:', error);
+      return null;
+    }
+
+    if (data) {
+      return getAgencyRecordCurrency(data as AgencyRecord);
+    }
+
+    const fallback = await supabase
+      .from('tbl_agencies')
+      .select('currency,currency_code')
+      .eq('id', trimmedId)
+      .maybeSingle();
+
+    if (fallback.error) {
+      console.warn('Agency fallback lookup error:', fallback.error);
+      return null;
+    }
+
+    return getAgencyRecordCurrency(fallback.data as AgencyRecord | null);
+  } catch (error) {
+    console.error('Unexpected agency lookup failure:', error);
+    return null;
+  }
+}
+
+async function fetchComponentMap(
+  supabase: SupabaseClient,
+  componentIds: number[],
+): Promise<Map<number, FeeComponent>> {
+  const map = new Map<number, FeeComponent>();
+
+  if (componentIds.length === 0) {
+    return map;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('tbl_fee_components')
+      .select('*')
+      .in('component_id', componentIds);
+
+    if (error) {
+      console.warn('Fee component lookup error:', error);
+      return map;
+    }
+
+    (data as FeeComponentRecord[] | null)?.forEach((component) => {
+      const feeComponent = toFeeComponent(component);
+      if (feeComponent) {
+        map.set(feeComponent.id, feeComponent);
+      }
+    });
+  } catch (error) {
+    console.error('Unexpected component lookup failure:', error);
+  }
+
+  return map;
+}
+
+export function createSupabaseFeeDataSource(
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): FeeDataSource {
+  return {
+    getFeeRules: async ({ agencyId, procedureId, role }) => {
+      let query = supabase
+        .from('tbl_fee_rules')
+        .select('*')
+        .eq('procedure_id', procedureId);
+
+      if (agencyId !== undefined) {
+        query = query.eq('agency_id', agencyId);
+      }
+      if (role !== undefined) {
+        query = query.eq('role', role);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Fee rules query failed:', error);
+        throw new Error('Unable to fetch fee rules at this time.');
+      }
+
+      return (data as FeeRuleRecord[] | null) ?? [];
+    },
+    getComponents: (componentIds) => fetchComponentMap(supabase, componentIds),
+    getAgencyCurrency: (agencyId) => fetchAgencyCurrency(supabase, agencyId),
+    getFeeLimits: async ({ agencyId, procedureId, role }) => {
+      const { data, error } = await supabase
+        .from('tbl_fee_limits')
+        .select('*')
+        .eq('agency_id', agencyId)
+        .eq('procedure_id', procedureId)
+        .eq('role', role)
+        .maybeSingle();
+
+      if (error) {
+        console.warn('Fee limits lookup error:', error);
+        return null;
+      }
+
+      return (data as FeeLimitRecord | null) ?? null;
+    },
+    getAgencies: async () => {
+      const { data, error } = await supabase
+        .from('tbl_agencies')
+        .select('*')
+        .order('agencyname', { ascending: true });
+
+      if (error) {
+        console.error('Agencies query failed:', error);
+        throw new Error('Unable to load agencies.');
+      }
+
+      return ((data as AgencyRecord[] | null) ?? [])
+        .map((agency) => toFeeAgency(agency))
+        .filter((agency): agency is FeeAgency => Boolean(agency));
+    },
+  };
+}
+
+// Loads everything needed to price many scenarios in a handful of queries.
+// Omitting `agencyIds` loads the given procedures for every agency.
+export async function loadSupabaseFeeFixture(
+  { agencyIds, procedureIds }: { agencyIds?: string[]; procedureIds: number[] },
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<FeeFixture> {
+  if (agencyIds?.length === 0 || procedureIds.length === 0) {
+    return {};
+  }
+
+  let rulesQuery = supabase
+    .from('tbl_fee_rules')
+    .select('*')
+    .in('procedure_id', procedureIds);
+  let limitsQuery = supabase
+    .from('tbl_fee_limits')
+    .select('*')
+    .in('procedure_id', procedureIds);
+
+  if (agencyIds) {
+    rulesQuery = rulesQuery.in('agency_id', agencyIds);
+    limitsQuery = limitsQuery.in('agency_id', agencyIds);
+  }
+
+  const [rulesResponse, limitsResponse, agenciesResponse] = await Promise.all([
+    rulesQuery,
+    limitsQuery,
+    supabase.from('tbl_agencies').select('*'),
+  ]);
+
+  if (rulesResponse.error) {
+    console.error('Bulk fee rules query failed:', rulesResponse.error);
+    throw new Error('Unable to fetch fee rules at this time.');
+  }
+  if (limitsResponse.error) {
+    console.warn('Bulk fee limits lookup error:', limitsResponse.error);
+  }
+  if (agenciesResponse.error) {
+    console.warn('Bulk agency lookup error:', agenciesResponse.error);
+  }
+
+  const rules = (rulesResponse.data as FeeRuleRecord[] | null) ?? [];
+  const componentIds = getReferencedComponentIds(rules);
+
+  let components: FeeComponentRecord[] = [];
+  if (componentIds.length > 0) {
+    const componentsResponse = await supabase
+      .from('tbl_fee_components')
+      .select('*')
+      .in('component_id', componentIds);
+
+    if (componentsResponse.error) {
+      console.warn(
+        'Bulk fee component lookup error:',
+        componentsResponse.error,
+      );
+    }
+    components = (componentsResponse.data as FeeComponentRecord[] | null) ?? [];
+  }
+
+  return {
+    agencies: (agenciesResponse.data as AgencyRecord[] | null) ?? [],
+    components,
+    limits: (limitsResponse.data as FeeLimitRecord[] | null) ?? [],
+    rules,
+  };
+}
@@ -0,0 +1,454 @@
+export type UnitInput = {
+  componentId: number;
+  quantity: number;
+};
+
+export const FEE_LINE_TYPES = ['base', 'per-unit', 'adjustment'] as const;
+export type FeeLineType = (typeof FEE_LINE_TYPES)[number];
+
+export type FeeBreakdownItem = {
+  label: string;
+  lineType: FeeLineType;
+  componentId: number | null;
+  componentName: string;
+  ruleId: number | null;
+  unitPrice: number | null;
+  submittedQuantity: number | null;
+  includedQuantity: number | null;
+  billableQuantity: number | null;
+  amount: number;
+  amountMinor: number;
+};
+
+export type FeeRuleRecord = {
+  id?: number;
+  agency_id?: string;
+  procedure_id?: number;
+  role?: string;
+  component_id?: number | null;
+  componentId?: number | null;
+  amount?: number | string | null;
+  included_quantity?: number | string | null;
+  includedQuantity?: number | string | null;
+  component_name?: string | null;
+  bands?: FeeRuleBandRecord[] | string | null;
+  min_amount?: number | string | null;
+  minAmount?: number | string | null;
+  max_amount?: number | string | null;
+  maxAmount?: number | string | null;
+  rule_kind?: string | null;
+  percentage?: number | string | null;
+  applies_to?: string | null;
+  target_component_id?: number | string | null;
+  sequence?: number | string | null;
+  condition?: string | null;
+  valid_from?: string | null;
+  validFrom?: string | null;
+  valid_to?: string | null;
+  validTo?: string | null;
+  schedule_version?: string | null;
+};
+
+// Volume bands are matched against the position of each submitted unit, so
+// units covered by the rule's included quantity are never charged and units
+// outside every band are not charged either.
+export type FeeRuleBandRecord = {
+  min_quantity?: number | string | null;
+  minQuantity?: number | string | null;
+  max_quantity?: number | string | null;
+  maxQuantity?: number | string | null;
+  amount?: number | string | null;
+};
+
+export type FeeBand = {
+  minQuantity: number;
+  maxQuantity: number | null;
+  amount: number;
+};
+
+export const ADJUSTMENT_TARGETS = ['base', 'component', 'total'] as const;
+export type AdjustmentTarget = (typeof ADJUSTMENT_TARGETS)[number];
+
+// Adjustment rules run after every component has been priced and capped, in
+// ascending `sequence` order. A `total` adjustment sees the running total,
+// including earlier adjustments; procedure-level limits are applied last.
+export type FeeAdjustment = {
+  ruleId: number | null;
+  label: string;
+  percentage: number;
+  appliesTo: AdjustmentTarget;
+  targetComponentId: number | null;
+  sequence: number;
+};
+
+export type FeeLimitRecord = {
+  agency_id?: string | null;
+  procedure_id?: number | string | null;
+  role?: string | null;
+  min_total?: number | string | null;
+  minTotal?: number | string | null;
+  max_total?: number | string | null;
+  maxTotal?: number | string | null;
+};
+
+export type FeeLimits = {
+  minAmount: number | null;
+  maxAmount: number | null;
+};
+
+export type FeeComponentRecord = {
+  component_id?: number | null;
+  componentId?: number | null;
+  name?: string | null;
+  component_name?: string | null;
+  display_name?: string | null;
+  charge_type?: string | null;
+  chargeType?: string | null;
+  input_label?: string | null;
+  min_quantity?: number | string | null;
+  max_quantity?: number | string | null;
+  help_text?: string | null;
+  sort_order?: number | string | null;
+};
+
+// `flat` components charge the rule amount once, `per-unit` components price
+// the submitted quantity, and `percentage` components mark adjustment rules.
+export const CHARGE_TYPES = ['flat', 'per-unit', 'percentage'] as const;
+export type ChargeType = (typeof CHARGE_TYPES)[number];
+
+export type FeeComponent = {
+  id: number;
+  name: string | null;
+  chargeType: ChargeType | null;
+  inputLabel: string | null;
+  minQuantity: number;
+  maxQuantity: number | null;
+  helpText: string | null;
+  sortOrder: number;
+};
+
+export type FeeRoleOption = {
+  name: string;
+  available: boolean;
+};
+
+export type UnitComponent = {
+  componentId: number;
+  label: string;
+  minQuantity: number;
+  maxQuantity: number | null;
+  helpText: string | null;
+};
+
+export type AgencyRecord = {
+  id?: string | null;
+  agency_id?: string | null;
+  agencyid?: string | null;
+  agencyname?: string | null;
+  name?: string | null;
+  currency?: string | null;
+  currency_code?: string | null;
+};
+
+export type FeeRuleQuery = {
+  agencyId: string;
+  procedureId: number;
+  role: string;
+};
+
+export type FeeRuleFilter = Pick<FeeRuleQuery, 'procedureId'> &
+  Partial<Pick<FeeRuleQuery, 'agencyId' | 'role'>>;
+
+export type FeeDataSource = {
+  getFeeRules: (filter: FeeRuleFilter) => Promise<FeeRuleRecord[]>;
+  getComponents: (componentIds: number[]) => Promise<Map<number, FeeComponent>>;
+  getAgencyCurrency: (agencyId: string) => Promise<string | null>;
+  getFeeLimits: (query: FeeRuleQuery) => Promise<FeeLimitRecord | null>;
+  getAgencies: () => Promise<FeeAgency[]>;
+};
+
+export type FeeAgency = {
+  id: string;
+  name: string;
+  currency: string | null;
+};
+
+export const COMPANY_SIZES = ['micro', 'small', 'medium', 'large'] as const;
+export type CompanySize = (typeof COMPANY_SIZES)[number];
+
+export type ApplicantProfile = {
+  companySize?: CompanySize;
+  orphanDesignation?: boolean;
+  paediatricIndication?: boolean;
+  publicHealthNonProfit?: boolean;
+};
+
+export type EligibilityResult = {
+  condition: string;
+  label: string;
+  matched: boolean;
+  reason: string;
+};
+
+// Validity dates are inclusive ISO dates; a missing bound is open-ended.
+export type FeeScheduleInfo = {
+  asOfDate: string;
+  version: string | null;
+  effectiveFrom: string | null;
+  effectiveTo: string | null;
+};
+
+export const FEE_WARNING_CODES = [
+  'invalid-unit',
+  'invalid-quantity',
+  'fractional-quantity',
+  'duplicate-component',
+  'unknown-component',
+  'within-allowance',
+  'unknown-condition',
+  'no-rules',
+] as const;
+
+export type FeeWarningCode = (typeof FEE_WARNING_CODES)[number];
+
+export type FeeWarning = {
+  code: FeeWarningCode;
+  field: string;
+  componentId: number | null;
+  message: string;
+};
+
+export type FeeCalculationInput = FeeRuleQuery & {
+  units: UnitInput[];
+  applicant?: ApplicantProfile;
+  asOfDate?: string;
+  warnings?: FeeWarning[];
+  includeSensitivity?: boolean;
+};
+
+export type CurrencyPrecision = {
+  minorUnits: number;
+  roundingMode: string;
+};
+
+export type UnitCostPoint = {
+  quantity: number;
+  totalFee: number;
+  totalFeeMinor: number;
+};
+
+// How the total responds to one quantity-driven component, with every other
+// input held as submitted.
+export type UnitSensitivity = {
+  componentId: number;
+  componentName: string;
+  quantity: number;
+  includedQuantity: number;
+  remainingAllowance: number;
+  marginalCost: number | null;
+  marginalCostMinor: number | null;
+  curve: UnitCostPoint[];
+};
+
+export type FeeCalculationResult = {
+  totalFee: number;
+  totalFeeMinor: number;
+  currency: string;
+  precision: CurrencyPrecision;
+  feeBreakdown: FeeBreakdownItem[];
+  sensitivity?: UnitSensitivity[];
+  eligibility: EligibilityResult[];
+  schedule: FeeScheduleInfo;
+  warnings: FeeWarning[];
+  conversion?: FeeConversion;
+  quoteId?: string;
+};
+
+export type ExchangeRateEntry = {
+  currency: string;
+  rate: number;
+  effectiveDate: string;
+};
+
+export type ExchangeRateTable = {
+  baseCurrency: string;
+  rates: ExchangeRateEntry[];
+};
+
+export type FeeConversion = {
+  currency: string;
+  totalFee: number;
+  totalFeeMinor: number;
+  precision: CurrencyPrecision;
+  rate: number;
+  rateDate: string;
+};
+
+// `result` is kept alongside `error` when the agency was priced but cannot
+// contribute to the total, so its warnings can still be shown.
+export type AgencyFeeEstimate = {
+  agencyId: string;
+  role: string;
+  result: FeeCalculationResult | null;
+  error: string | null;
+};
+
+export type CurrencyTotal = {
+  currency: string;
+  totalFee: number;
+  totalFeeMinor: number;
+};
+
+export type DecentralisedFeeInput = Omit<
+  FeeCalculationInput,
+  'agencyId' | 'role'
+> & {
+  referenceAgencyId: string;
+  referenceRole: string;
+  concernedAgencyIds: string[];
+  concernedRole: string;
+  // Agencies whose rules use another role name than `concernedRole`.
+  concernedRoles?: Record<string, string>;
+};
+
+export type DecentralisedFeeResult = {
+  estimates: AgencyFeeEstimate[];
+  totals: CurrencyTotal[];
+};
+
+export type BatchScenario =
+  { id: string; input: FeeCalculationInput } | { id: string; error: string };
+
+export type BatchScenarioResult = {
+  id: string;
+  result: FeeCalculationResult | null;
+  error: string | null;
+};
+
+export type AgencyComparison = {
+  agencyId: string;
+  agencyName: string;
+  hasRules: boolean;
+  result: FeeCalculationResult | null;
+  error: string | null;
+  conversionError?: string;
+};
+
+export type AgencyComparisonInput = Omit<FeeCalculationInput, 'agencyId'>;
+
+export const SCHEDULE_FORMATS = ['csv', 'json'] as const;
+export type ScheduleFormat = (typeof SCHEDULE_FORMATS)[number];
+
+export const QUOTE_EXPORT_FORMATS = ['csv', 'json', 'html'] as const;
+export type QuoteExportFormat = (typeof QUOTE_EXPORT_FORMATS)[number];
+
+export type QuoteDocument = {
+  quoteId: string | null;
+  generatedAt: string;
+  agencyName: string;
+  procedureName: string;
+  inputs: FeeCalculationInput;
+  result: FeeCalculationResult;
+};
+
+export type ScheduleRuleChange = {
+  before: FeeRuleRecord;
+  after: FeeRuleRecord;
+  fields: string[];
+};
+
+// Imported rows are matched to existing rows by the rule's natural key, so a
+// file without ids (for example a newly published regulation) still lines up
+// with the current schedule.
+export type ScheduleDiff = {
+  added: FeeRuleRecord[];
+  changed: ScheduleRuleChange[];
+  removed: FeeRuleRecord[];
+  unchangedCount: number;
+};
+
+export type ScheduleRowError = {
+  row: number;
+  errors: string[];
+};
+
+export type FeeScheduleVersionRecord = {
+  id?: number;
+  agency_id?: string | null;
+  name?: string | null;
+  created_at?: string | null;
+  rules?: FeeRuleRecord[] | string | null;
+};
+
+// A version is a snapshot of every rule an agency had after a change was
+// saved, so any two versions can be compared or priced after the fact.
+export type FeeScheduleVersion = {
+  id: number;
+  agencyId: string;
+  name: string;
+  createdAt: string;
+  ruleCount: number;
+};
+
+export type ScheduleValueChange = {
+  before: number | null;
+  after: number | null;
+  percentChange: number | null;
+};
+
+export type ScheduleVersionChange = ScheduleRuleChange & {
+  amount: ScheduleValueChange;
+  includedQuantity: ScheduleValueChange;
+};
+
+export type ScheduleVersionDiff = Omit<ScheduleDiff, 'changed'> & {
+  from: FeeScheduleVersion;
+  to: FeeScheduleVersion;
+  changed: ScheduleVersionChange[];
+};
+
+export type ScheduleVersionImpact = {
+  from: FeeCalculationResult;
+  to: FeeCalculationResult;
+  difference: number;
+  percentChange: number | null;
+  note: string;
+};
+
+export type FeeQuoteRecord = {
+  id?: string;
+  agency_id?: string | null;
+  procedure_id?: number | null;
+  role?: string | null;
+  currency?: string | null;
+  total_fee?: number | string | null;
+  schedule_version_id?: number | null;
+  inputs?: FeeCalculationInput | string | null;
+  result?: FeeCalculationResult | string | null;
+  created_at?: string | null;
+};
+
+export type FeeQuoteSummary = {
+  id: string;
+  agencyId: string;
+  procedureId: number;
+  role: string;
+  currency: string;
+  totalFee: number;
+  scheduleVersionId: number | null;
+  createdAt: string;
+};
+
+// A quote keeps the inputs and the result exactly as they were calculated, so
+// it reads the same after the schedule has changed.
+export type FeeQuote = FeeQuoteSummary & {
+  inputs: FeeCalculationInput;
+  result: FeeCalculationResult;
+};
+
+export type FeeQuoteFilters = {
+  agencyId?: string;
+  procedureId?: number;
+  createdFrom?: string;
+  createdTo?: string;
+};
@@ -0,0 +1,35 @@
+import { getRuleComponentId } from './engine';
+import { isRuleEffective, todayIsoDate } from './schedule';
+import type { FeeDataSource, FeeRuleFilter, UnitComponent } from './types';
+
+export async function listUnitComponents(
+  filter: FeeRuleFilter,
+  dataSource: FeeDataSource,
+  asOfDate: string = todayIsoDate(),
+): Promise<UnitComponent[]> {
+  const rules = (await dataSource.getFeeRules(filter)).filter((rule) =>
+    isRuleEffective(rule, asOfDate),
+  );
+
+  const componentIds = Array.from(
+    new Set(
+      rules
+        .map((rule) => getRuleComponentId(rule))
+        .filter((id): id is number => typeof id === 'number' && id > 0),
+    ),
+  );
+
+  const components = await dataSource.getComponents(componentIds);
+
+  return Array.from(components.values())
+    .filter((component) => component.chargeType === 'per-unit')
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+    .map((component) => ({
+      componentId: component.id,
+      label:
+        component.inputLabel ?? component.name ?? `Component ${component.id}`,
+      minQuantity: component.minQuantity,
+      maxQuantity: component.maxQuantity,
+      helpText: component.helpText,
+    }));
+}
@@ -0,0 +1,18 @@
+import { getMinorUnits } from '@/lib/fees/money';
+import type { FeeConversion } from '@/lib/fees/types';
+
+export const formatMoney = (currency: string, value: number) => {
+  const minorUnits = getMinorUnits(currency);
+  return `${currency} ${value.toLocaleString(undefined, {
+    minimumFractionDigits: minorUnits,
+    maximumFractionDigits: minorUnits,
+  })}`;
+};
+
+export const formatConversion = (
+  fromCurrency: string,
+  conversion: FeeConversion,
+) =>
+  `1 ${fromCurrency} = ${conversion.rate.toLocaleString(undefined, {
+    maximumFractionDigits: 6,
+  })} ${conversion.currency}, rate of ${conversion.rateDate}`;
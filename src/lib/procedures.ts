@@ -0,0 +1,52 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseServerClient } from '@/lib/supabaseServer';
+
+type ProcedureRow = {
+  id?: number | null;
+  procedure_id?: number | string | null;
+  procedureid?: number | string | null;
+  name?: string | null;
+  display_name?: string | null;
+  displayname?: string | null;
+};
+
+export type ProcedureOption = {
+  id: number;
+  name: string;
+};
+
+export async function listProcedures(
+  supabase: SupabaseClient = getSupabaseServerClient(),
+): Promise<ProcedureOption[]> {
+  const { data, error } = await supabase
+    .from('tbl_procedure_types')
+    .select('*')
+    .order('display_name', { ascending: true });
+
+  if (error) {
+    console.error('Failed to load procedures:', error);
+    throw new Error('Unable to load procedures.');
+  }
+
+  return (
+    (data as ProcedureRow[] | null)?.map((procedure) => {
+      const stableIdRaw =
+        procedure.procedure_id ?? procedure.procedureid ?? procedure.id ?? 0;
+      const stableId =
+        typeof stableIdRaw === 'string'
+          ? Number(stableIdRaw)
+          : (stableIdRaw ?? 0);
+
+      const displayName =
+        procedure.display_name?.trim() ??
+        procedure.displayname?.trim() ??
+        procedure.name?.trim() ??
+        `Procedure ${stableId || ''}`;
+
+      return {
+        id: stableId,
+        name: displayName,
+      };
+    }) ?? []
+  );
+}
@@ -0,0 +1,324 @@
+import { useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import FeeRuleEditorRow, {
+  EDITABLE_RULE_COLUMNS,
+  type FeeRuleDraft,
+} from '@/components/FeeRuleEditorRow';
+import ScheduleTransferPanel from '@/components/ScheduleTransferPanel';
+import type { FeeComponentRecord, FeeRuleRecord } from '@/lib/fees/types';
+
+type Option = {
+  id: string | number;
+  name: string;
+};
+
+type AdminErrorPayload = {
+  error?: string;
+  details?: string[];
+};
+
+const ADMIN_TOKEN_KEY = 'regfee-admin-token';
+
+const describeError = (payload: AdminErrorPayload, fallback: string) =>
+  [payload.error ?? fallback, ...(payload.details ?? [])].join(' ');
+
+export default function AdminPage() {
+  const [token, setToken] = useState('');
+  const [agencies, setAgencies] = useState<Option[]>([]);
+  const [procedures, setProcedures] = useState<Option[]>([]);
+  const [selectedAgency, setSelectedAgency] = useState('');
+  const [selectedProcedure, setSelectedProcedure] = useState('');
+  const [rules, setRules] = useState<FeeRuleRecord[] | null>(null);
+  const [components, setComponents] = useState<FeeComponentRecord[]>([]);
+  const [versionName, setVersionName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setToken(window.sessionStorage.getItem(ADMIN_TOKEN_KEY) ?? '');
+
+    const loadOptions = async () => {
+      try {
+        const [agenciesResponse, proceduresResponse] = await Promise.all([
+          fetch('/api/agencies'),
+          fetch('/api/procedures'),
+        ]);
+        const agenciesPayload = (await agenciesResponse.json()) as {
+          agencies?: Option[];
+        };
+        const proceduresPayload = (await proceduresResponse.json()) as {
+          procedures?: Option[];
+        };
+        setAgencies(agenciesPayload.agencies ?? []);
+        setProcedures(proceduresPayload.procedures ?? []);
+      } catch (loadError) {
+        console.error('Failed to load admin options:', loadError);
+        setErrorMessage('Failed to load agencies and procedures.');
+      }
+    };
+
+    void loadOptions();
+  }, []);
+
+  const adminFetch = async <T,>(
+    url: string,
+    init: RequestInit = {},
+  ): Promise<T> => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+    });
+    const payload = (await response.json()) as T & AdminErrorPayload;
+
+    if (!response.ok) {
+      throw new Error(describeError(payload, 'Request failed.'));
+    }
+
+    return payload;
+  };
+
+  const handleTokenChange = (value: string) => {
+    setToken(value);
+    window.sessionStorage.setItem(ADMIN_TOKEN_KEY, value);
+  };
+
+  const loadSchedule = async () => {
+    if (!selectedAgency || !selectedProcedure) {
+      setErrorMessage('Select an agency and a procedure first.');
+      return;
+    }
+
+    setIsLoading(true);
+    setErrorMessage(null);
+    try {
+      const params = new URLSearchParams({
+        agencyId: selectedAgency,
+        procedureId: selectedProcedure,
+      });
+      const [rulesPayload, componentsPayload] = await Promise.all([
+        adminFetch<{ rules: FeeRuleRecord[] }>(
+          `/api/admin/fee-rules?${params}`,
+        ),
+        adminFetch<{ components: FeeComponentRecord[] }>(
+          '/api/admin/fee-components',
+        ),
+      ]);
+      setRules(rulesPayload.rules);
+      setComponents(componentsPayload.components);
+    } catch (loadError) {
+      setRules(null);
+      setErrorMessage(
+        loadError instanceof Error
+          ? loadError.message
+          : 'Failed to load the schedule.',
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const createRule = async (draft: FeeRuleDraft) => {
+    const { rule } = await adminFetch<{ rule: FeeRuleRecord }>(
+      '/api/admin/fee-rules',
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          ...draft,
+          agency_id: selectedAgency,
+          procedure_id: selectedProcedure,
+          versionName,
+        }),
+      },
+    );
+    setRules((prev) => [...(prev ?? []), rule]);
+  };
+
+  const updateRule = async (id: number, draft: FeeRuleDraft) => {
+    const { rule } = await adminFetch<{ rule: FeeRuleRecord }>(
+      `/api/admin/fee-rules/${id}`,
+      { method: 'PUT', body: JSON.stringify({ ...draft, versionName }) },
+    );
+    setRules((prev) =>
+      (prev ?? []).map((existing) => (existing.id === id ? rule : existing)),
+    );
+  };
+
+  const deleteRule = async (id: number) => {
+    if (!window.confirm(`Delete fee rule ${id}?`)) {
+      return;
+    }
+
+    const params = new URLSearchParams({ versionName });
+    await adminFetch(`/api/admin/fee-rules/${id}?${params}`, {
+      method: 'DELETE',
+    });
+    setRules((prev) => (prev ?? []).filter((existing) => existing.id !== id));
+  };
+
+  return (
+    <>
+      <Head>
+        <title>RegFee Schedule Admin</title>
+      </Head>
+      <main className="min-h-screen bg-slate-50 py-12">
+        <div className="mx-auto max-w-7xl px-4">
+          <section className="rounded-3xl bg-white p-8 shadow-sm ring-1 ring-slate-200">
+            <header className="mb-8">
+              <p className="text-sm font-semibold uppercase tracking-wide text-slate-500">
+                Administration
+              </p>
+              <h1 className="mt-2 text-3xl font-semibold text-slate-900">
+                Fee Schedule
+              </h1>
+              <p className="mt-3 text-sm text-slate-600">
+                Review and edit the fee rules for an agency and procedure.
+                Changes are validated before they are saved, and each saved
+                change is recorded as a schedule version that can be compared on
+                the{' '}
+                <Link
+                  className="text-indigo-600 underline"
+                  href="/schedule-versions"
+                >
+                  schedule versions
+                </Link>{' '}
+                page.
+              </p>
+            </header>
+
+            <div className="grid gap-6 sm:grid-cols-4">
+              <label className="flex flex-col text-sm font-medium text-slate-700">
+                Admin token
+                <input
+                  type="password"
+                  className="mt-2 rounded-xl border border-slate-300 px-3 py-2 text-base"
+                  value={token}
+                  onChange={(event) => handleTokenChange(event.target.value)}
+                />
+              </label>
+
+              <label className="flex flex-col text-sm font-medium text-slate-700">
+                Agency
+                <select
+                  className="mt-2 rounded-xl border border-slate-300 bg-white px-3 py-2 text-base"
+                  value={selectedAgency}
+                  onChange={(event) => {
+                    setSelectedAgency(event.target.value);
+                    setRules(null);
+                  }}
+                >
+                  <option value="">Select an Agency</option>
+                  {agencies.map((agency) => (
+                    <option key={agency.id} value={agency.id}>
+                      {agency.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex flex-col text-sm font-medium text-slate-700">
+                Procedure
+                <select
+                  className="mt-2 rounded-xl border border-slate-300 bg-white px-3 py-2 text-base"
+                  value={selectedProcedure}
+                  onChange={(event) => {
+                    setSelectedProcedure(event.target.value);
+                    setRules(null);
+                  }}
+                >
+                  <option value="">Select a Procedure</option>
+                  {procedures.map((procedure) => (
+                    <option key={procedure.id} value={procedure.id}>
+                      {procedure.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex flex-col text-sm font-medium text-slate-700">
+                Version name
+                <input
+                  type="text"
+                  className="mt-2 rounded-xl border border-slate-300 px-3 py-2 text-base"
+                  placeholder="Defaults to the save time"
+                  value={versionName}
+                  onChange={(event) => setVersionName(event.target.value)}
+                />
+              </label>
+            </div>
+
+            <button
+              type="button"
+              className="mt-6 rounded-2xl bg-indigo-600 px-6 py-3 text-base font-semibold text-white shadow-lg shadow-indigo-200 transition hover:bg-indigo-700 disabled:cursor-not-allowed disabled:bg-slate-300"
+              onClick={() => void loadSchedule()}
+              disabled={isLoading}
+            >
+              {isLoading ? 'Loading…' : 'Load schedule'}
+            </button>
+
+            {errorMessage ? (
+              <p className="mt-6 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+                {errorMessage}
+              </p>
+            ) : null}
+
+            {rules ? (
+              <div className="mt-8 overflow-x-auto">
+                <table className="w-full text-left text-sm text-slate-800">
+                  <thead>
+                    <tr className="border-b border-slate-200 text-xs uppercase tracking-wide text-slate-500">
+                      <th className="px-2 py-2">Id</th>
+                      {EDITABLE_RULE_COLUMNS.map((column) => (
+                        <th key={column.key} className="px-1 py-2">
+                          {column.label}
+                        </th>
+                      ))}
+                      <th className="px-2 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rules.map((rule) => (
+                      <FeeRuleEditorRow
+                        key={rule.id}
+                        rule={rule}
+                        components={components}
+                        onSave={(draft) => updateRule(Number(rule.id), draft)}
+                        onDelete={() => deleteRule(Number(rule.id))}
+                      />
+                    ))}
+                    <FeeRuleEditorRow
+                      rule={null}
+                      components={components}
+                      onSave={createRule}
+                    />
+                  </tbody>
+                </table>
+                {rules.length === 0 ? (
+                  <p className="mt-4 text-sm text-slate-500">
+                    No rules yet. Use the last row to add one.
+                  </p>
+                ) : null}
+              </div>
+            ) : null}
+
+            {selectedAgency && token ? (
+              <ScheduleTransferPanel
+                agencyId={selectedAgency}
+                token={token}
+                versionName={versionName}
+                onApplied={() => {
+                  if (rules) {
+                    void loadSchedule();
+                  }
+                }}
+              />
+            ) : null}
+          </section>
+        </div>
+      </main>
+    </>
+  );
+}
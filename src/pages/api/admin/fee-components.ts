@@ -0,0 +1,63 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import {
+  pickFeeComponentFields,
+  validateFeeComponent,
+} from '@/lib/fees/ruleValidation';
+import {
+  getFeeComponent,
+  listFeeComponents,
+  saveFeeComponent,
+} from '@/lib/fees/scheduleStore';
+import type { FeeComponentRecord } from '@/lib/fees/types';
+
+type FeeComponentsResponse =
+  | { components: FeeComponentRecord[] }
+  | { component: FeeComponentRecord }
+  | { error: string; details?: string[] };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<FeeComponentsResponse>,
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  if (!requireAdmin(req, res)) {
+    return;
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ components: await listFeeComponents() });
+    }
+
+    const component = pickFeeComponentFields(req.body);
+    const details = validateFeeComponent(component);
+    if (details.length > 0) {
+      return res
+        .status(400)
+        .json({ error: 'Fee component is invalid.', details });
+    }
+
+    if (
+      typeof component.component_id === 'number' &&
+      (await getFeeComponent(component.component_id))
+    ) {
+      return res.status(409).json({
+        error: `Component ${component.component_id} already exists.`,
+      });
+    }
+
+    return res
+      .status(201)
+      .json({ component: await saveFeeComponent(component, null) });
+  } catch (error) {
+    console.error('Admin fee components API error:', error);
+    const message =
+      error instanceof Error ? error.message : 'Unexpected error occurred.';
+    return res.status(500).json({ error: message });
+  }
+}
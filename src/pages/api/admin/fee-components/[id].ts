@@ -0,0 +1,84 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import {
+  pickFeeComponentFields,
+  validateFeeComponent,
+} from '@/lib/fees/ruleValidation';
+import {
+  countComponentRules,
+  deleteFeeComponent,
+  getFeeComponent,
+  saveFeeComponent,
+} from '@/lib/fees/scheduleStore';
+import type { FeeComponentRecord } from '@/lib/fees/types';
+import { getQueryValue } from '@/lib/queryParams';
+
+type FeeComponentResponse =
+  | { component: FeeComponentRecord }
+  | { deleted: true }
+  | { error: string; details?: string[] };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<FeeComponentResponse>,
+) {
+  if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    res.setHeader('Allow', 'GET, PUT, DELETE');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  if (!requireAdmin(req, res)) {
+    return;
+  }
+
+  const id = Number(getQueryValue(req.query.id));
+  if (!Number.isInteger(id)) {
+    return res
+      .status(400)
+      .json({ error: 'Component id must be a whole number.' });
+  }
+
+  try {
+    const existing = await getFeeComponent(id);
+    if (!existing) {
+      return res.status(404).json({ error: `Component ${id} was not found.` });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ component: existing });
+    }
+
+    if (req.method === 'DELETE') {
+      const ruleCount = await countComponentRules(id);
+      if (ruleCount > 0) {
+        return res.status(409).json({
+          error: `Component ${id} is used by ${ruleCount} fee rule(s) and cannot be deleted.`,
+        });
+      }
+
+      await deleteFeeComponent(id);
+      return res.status(200).json({ deleted: true });
+    }
+
+    const component = {
+      ...existing,
+      ...pickFeeComponentFields(req.body),
+      component_id: id,
+    };
+    const details = validateFeeComponent(component);
+    if (details.length > 0) {
+      return res
+        .status(400)
+        .json({ error: 'Fee component is invalid.', details });
+    }
+
+    return res
+      .status(200)
+      .json({ component: await saveFeeComponent(component, id) });
+  } catch (error) {
+    console.error('Admin fee component API error:', error);
+    const message =
+      error instanceof Error ? error.message : 'Unexpected error occurred.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,66 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import { parseProcedureId } from '@/lib/fees/request';
+import { pickFeeRuleFields } from '@/lib/fees/ruleValidation';
+import {
+  checkFeeRule,
+  listScheduleRules,
+  saveFeeRule,
+} from '@/lib/fees/scheduleStore';
+import { parseVersionName } from '@/lib/fees/scheduleVersions';
+import type { FeeRuleRecord } from '@/lib/fees/types';
+import { getQueryValue } from '@/lib/queryParams';
+
+type FeeRulesResponse =
+  | { rules: FeeRuleRecord[] }
+  | { rule: FeeRuleRecord }
+  | { error: string; details?: string[] };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<FeeRulesResponse>,
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  if (!requireAdmin(req, res)) {
+    return;
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const agencyId = getQueryValue(req.query.agencyId)?.trim();
+      const procedureId = parseProcedureId(
+        getQueryValue(req.query.procedureId),
+      );
+      if (!agencyId || Number.isNaN(procedureId)) {
+        return res
+          .status(400)
+          .json({ error: 'agencyId and a numeric procedureId are required.' });
+      }
+
+      const rules = await listScheduleRules({ agencyId, procedureId });
+      return res.status(200).json({ rules });
+    }
+
+    const rule = pickFeeRuleFields(req.body);
+    const details = await checkFeeRule(rule);
+    if (details.length > 0) {
+      return res.status(400).json({ error: 'Fee rule is invalid.', details });
+    }
+
+    const saved = await saveFeeRule(
+      rule,
+      parseVersionName(req.body?.versionName),
+    );
+
+    return res.status(201).json({ rule: saved });
+  } catch (error) {
+    console.error('Admin fee rules API error:', error);
+    const message =
+      error instanceof Error ? error.message : 'Unexpected error occurred.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,74 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import { pickFeeRuleFields } from '@/lib/fees/ruleValidation';
+import {
+  checkFeeRule,
+  deleteFeeRule,
+  getFeeRule,
+  saveFeeRule,
+} from '@/lib/fees/scheduleStore';
+import { parseVersionName } from '@/lib/fees/scheduleVersions';
+import type { FeeRuleRecord } from '@/lib/fees/types';
+import { getQueryValue } from '@/lib/queryParams';
+
+type FeeRuleResponse =
+  | { rule: FeeRuleRecord }
+  | { deleted: true }
+  | { error: string; details?: string[] };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<FeeRuleResponse>,
+) {
+  if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    res.setHeader('Allow', 'GET, PUT, DELETE');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  if (!requireAdmin(req, res)) {
+    return;
+  }
+
+  const id = Number(getQueryValue(req.query.id));
+  if (!Number.isInteger(id)) {
+    return res.status(400).json({ error: 'Rule id must be a whole number.' });
+  }
+
+  const versionName = parseVersionName(
+    req.body?.versionName ?? getQueryValue(req.query.versionName),
+  );
+
+  try {
+    const existing = await getFeeRule(id);
+    if (!existing) {
+      return res.status(404).json({ error: `Fee rule ${id} was not found.` });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ rule: existing });
+    }
+
+    if (req.method === 'DELETE') {
+      if (!(await deleteFeeRule(id, versionName))) {
+        return res.status(404).json({ error: `Fee rule ${id} was not found.` });
+      }
+
+      return res.status(200).json({ deleted: true });
+    }
+
+    const rule = { ...existing, ...pickFeeRuleFields(req.body), id };
+    const details = await checkFeeRule(rule);
+    if (details.length > 0) {
+      return res.status(400).json({ error: 'Fee rule is invalid.', details });
+    }
+
+    const saved = await saveFeeRule(rule, versionName);
+
+    return res.status(200).json({ rule: saved });
+  } catch (error) {
+    console.error('Admin fee rule API error:', error);
+    const message =
+      error instanceof Error ? error.message : 'Unexpected error occurred.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,64 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import { parseProcedureId } from '@/lib/fees/request';
+import { listAgencyRules } from '@/lib/fees/scheduleStore';
+import {
+  normaliseScheduleFormat,
+  serialiseSchedule,
+} from '@/lib/fees/scheduleTransfer';
+import { getQueryValue } from '@/lib/queryParams';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<string | { error: string }>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  if (!requireAdmin(req, res)) {
+    return;
+  }
+
+  const agencyId = getQueryValue(req.query.agencyId)?.trim();
+  if (!agencyId) {
+    return res.status(400).json({ error: 'agencyId is required.' });
+  }
+
+  const format = normaliseScheduleFormat(
+    getQueryValue(req.query.format) ?? 'csv',
+  );
+  if (!format) {
+    return res.status(400).json({ error: 'format must be csv or json.' });
+  }
+
+  const rawProcedureId = getQueryValue(req.query.procedureId);
+  const procedureId =
+    rawProcedureId === undefined ? null : parseProcedureId(rawProcedureId);
+  if (Number.isNaN(procedureId)) {
+    return res.status(400).json({ error: 'procedureId must be a number.' });
+  }
+
+  try {
+    const rules = await listAgencyRules(
+      agencyId,
+      procedureId === null ? undefined : [procedureId],
+    );
+
+    res.setHeader(
+      'Content-Type',
+      format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="fee-schedule-${agencyId}.${format}"`,
+    );
+    return res.status(200).send(serialiseSchedule(rules, format));
+  } catch (error) {
+    console.error('Schedule export API error:', error);
+    const message =
+      error instanceof Error ? error.message : 'Unexpected error occurred.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,94 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import { toNumber } from '@/lib/fees/parse';
+import {
+  applyScheduleDiff,
+  checkScheduleRules,
+  listAgencyRules,
+} from '@/lib/fees/scheduleStore';
+import { parseVersionName } from '@/lib/fees/scheduleVersions';
+import {
+  diffSchedule,
+  normaliseScheduleFormat,
+  parseScheduleFile,
+} from '@/lib/fees/scheduleTransfer';
+import type { ScheduleDiff, ScheduleRowError } from '@/lib/fees/types';
+
+type ScheduleImportResponse =
+  | { applied: boolean; diff: ScheduleDiff }
+  | { error: string; rowErrors?: ScheduleRowError[] };
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '2mb' } },
+};
+
+// Replaces the agency's rules for every procedure that appears in the file.
+// Without `apply: true` the request is a dry run that only reports the diff.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ScheduleImportResponse>,
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res
+      .status(405)
+      .json({ error: 'Method Not Allowed. Use POST with a JSON body.' });
+  }
+
+  if (!requireAdmin(req, res)) {
+    return;
+  }
+
+  const {
+    agencyId,
+    format: rawFormat,
+    content,
+    apply,
+    versionName,
+  } = (req.body ?? {}) as Record<string, unknown>;
+
+  if (typeof agencyId !== 'string' || !agencyId.trim()) {
+    return res.status(400).json({ error: 'agencyId is required.' });
+  }
+
+  const format = normaliseScheduleFormat(rawFormat);
+  if (!format) {
+    return res.status(400).json({ error: 'format must be csv or json.' });
+  }
+
+  const parsed = parseScheduleFile(content, format, agencyId.trim());
+  if ('error' in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  try {
+    const rowErrors = await checkScheduleRules(parsed.value);
+    if (rowErrors.length > 0) {
+      return res.status(400).json({
+        error: `${rowErrors.length} row(s) failed validation; nothing was imported.`,
+        rowErrors,
+      });
+    }
+
+    const procedureIds = Array.from(
+      new Set(parsed.value.map((rule) => toNumber(rule.procedure_id))),
+    );
+    const current = await listAgencyRules(agencyId.trim(), procedureIds);
+    const diff = diffSchedule(current, parsed.value);
+
+    if (apply === true) {
+      await applyScheduleDiff(
+        agencyId.trim(),
+        diff,
+        parseVersionName(versionName),
+      );
+    }
+
+    return res.status(200).json({ applied: apply === true, diff });
+  } catch (error) {
+    console.error('Schedule import API error:', error);
+    const message =
+      error instanceof Error ? error.message : 'Unexpected error occurred.';
+    return res.status(500).json({ error: message });
+  }
+}
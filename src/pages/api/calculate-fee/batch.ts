@@ -0,0 +1,57 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { calculateFeeBatch, MAX_BATCH_SCENARIOS } from '@/lib/fees/batch';
+import { createMemoryFeeDataSource } from '@/lib/fees/memoryDataSource';
+import { parseBatchRequest } from '@/lib/fees/request';
+import { loadSupabaseFeeFixture } from '@/lib/fees/supabaseDataSource';
+import type { BatchScenarioResult } from '@/lib/fees/types';
+
+type BatchResponse =
+  | {
+      results: BatchScenarioResult[];
+    }
+  | {
+      error: string;
+    };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<BatchResponse>,
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res
+      .status(405)
+      .json({ error: 'Method Not Allowed. Use POST with a JSON body.' });
+  }
+
+  const parsed = parseBatchRequest(req.body, MAX_BATCH_SCENARIOS);
+  if ('error' in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  const inputs = parsed.value.flatMap((scenario) =>
+    'input' in scenario ? [scenario.input] : [],
+  );
+
+  try {
+    const fixture = await loadSupabaseFeeFixture({
+      agencyIds: Array.from(
+        new Set(inputs.map((input) => input.agencyId.trim())),
+      ),
+      procedureIds: Array.from(
+        new Set(inputs.map((input) => input.procedureId)),
+      ),
+    });
+    const results = await calculateFeeBatch(
+      parsed.value,
+      createMemoryFeeDataSource(fixture),
+    );
+
+    return res.status(200).json({ results });
+  } catch (error) {
+    console.error('Batch fee calculation API error:', error);
+    const message =
+      error instanceof Error ? error.message : 'Unexpected error occurred.';
+    return res.status(500).json({ error: message });
+  }
+}
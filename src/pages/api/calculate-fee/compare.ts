@@ -0,0 +1,78 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { compareAgencies } from '@/lib/fees/compare';
+import { convertResult, loadExchangeRates } from '@/lib/fees/exchangeRates';
+import { createMemoryFeeDataSource } from '@/lib/fees/memoryDataSource';
+import {
+  parseComparisonRequest,
+  parseTargetCurrency,
+} from '@/lib/fees/request';
+import { loadSupabaseFeeFixture } from '@/lib/fees/supabaseDataSource';
+import type { AgencyComparison } from '@/lib/fees/types';
+
+type ComparisonResponse =
+  | {
+      comparisons: AgencyComparison[];
+    }
+  | {
+      error: string;
+    };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ComparisonResponse>,
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res
+      .status(405)
+      .json({ error: 'Method Not Allowed. Use POST with a JSON body.' });
+  }
+
+  const parsed = parseComparisonRequest(req.body);
+  if ('error' in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  const targetCurrency = parseTargetCurrency(req.body?.targetCurrency);
+  if ('error' in targetCurrency) {
+    return res.status(400).json({ error: targetCurrency.error });
+  }
+
+  try {
+    const fixture = await loadSupabaseFeeFixture({
+      procedureIds: [parsed.value.procedureId],
+    });
+    const comparisons = await compareAgencies(
+      parsed.value,
+      createMemoryFeeDataSource(fixture),
+    );
+
+    if (!targetCurrency.value) {
+      return res.status(200).json({ comparisons });
+    }
+
+    const rates = await loadExchangeRates();
+    const currency = targetCurrency.value;
+
+    return res.status(200).json({
+      comparisons: comparisons.map((comparison) => {
+        if (!comparison.result) {
+          return comparison;
+        }
+
+        const conversion = convertResult(rates, comparison.result, currency);
+        return 'error' in conversion
+          ? { ...comparison, conversionError: conversion.error }
+          : {
+              ...comparison,
+              result: { ...comparison.result, conversion: conversion.value },
+            };
+      }),
+    });
+  } catch (error) {
+    console.error('Agency comparison API error:', error);
+    const message =
+      error instanceof Error ? error.message : 'Unexpected error occurred.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { calculateDecentralisedFee } from '@/lib/fees/decentralised';
+import { parseDecentralisedRequest } from '@/lib/fees/request';
+import { createSupabaseFeeDataSource } from '@/lib/fees/supabaseDataSource';
+import type { DecentralisedFeeResult } from '@/lib/fees/types';
+
+type ApiErrorResponse = {
+  error: string;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DecentralisedFeeResult | ApiErrorResponse>,
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res
+      .status(405)
+      .json({ error: 'Method Not Allowed. Use POST with a JSON body.' });
+  }
+
+  const parsed = parseDecentralisedRequest(req.body);
+  if ('error' in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  try {
+    const result = await calculateDecentralisedFee(
+      parsed.value,
+      createSupabaseFeeDataSource(),
+    );
+
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('Decentralised fee API error:', error);
+    const message =
+      error instanceof Error ? error.message : 'Unexpected error occurred.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,127 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { calculateFee } from '@/lib/fees/engine';
+import { convertResult, loadExchangeRates } from '@/lib/fees/exchangeRates';
+import {
+  exportQuote,
+  normaliseQuoteExportFormat,
+} from '@/lib/fees/quoteExport';
+import { getQuote, isQuoteId } from '@/lib/fees/quoteStore';
+import {
+  parseCalculationRequest,
+  parseTargetCurrency,
+} from '@/lib/fees/request';
+import { createSupabaseFeeDataSource } from '@/lib/fees/supabaseDataSource';
+import type {
+  FeeCalculationInput,
+  FeeCalculationResult,
+  QuoteDocument,
+} from '@/lib/fees/types';
+import { listProcedures } from '@/lib/procedures';
+
+type CalculationSource =
+  | {
+      quoteId: string | null;
+      inputs: FeeCalculationInput;
+      result: FeeCalculationResult;
+    }
+  | { status: number; error: string };
+
+// Exports a saved quote when quoteId is given, otherwise calculates the
+// request the same way /api/calculate-fee does.
+async function loadCalculation(body: unknown): Promise<CalculationSource> {
+  const data = (body ?? {}) as Record<string, unknown>;
+
+  if (data.quoteId !== undefined) {
+    if (!isQuoteId(data.quoteId)) {
+      return { status: 400, error: 'quoteId must be a UUID.' };
+    }
+
+    const quote = await getQuote(data.quoteId);
+    return quote
+      ? { quoteId: quote.id, inputs: quote.inputs, result: quote.result }
+      : { status: 404, error: `Quote ${data.quoteId} was not found.` };
+  }
+
+  const parsed = parseCalculationRequest(data);
+  if ('error' in parsed) {
+    return { status: 400, error: parsed.error };
+  }
+
+  const targetCurrency = parseTargetCurrency(data.targetCurrency);
+  if ('error' in targetCurrency) {
+    return { status: 400, error: targetCurrency.error };
+  }
+
+  const result = await calculateFee(
+    parsed.value,
+    createSupabaseFeeDataSource(),
+  );
+  if (!targetCurrency.value) {
+    return { quoteId: null, inputs: parsed.value, result };
+  }
+
+  const conversion = convertResult(
+    await loadExchangeRates(),
+    result,
+    targetCurrency.value,
+  );
+  return 'error' in conversion
+    ? { status: 422, error: conversion.error }
+    : {
+        quoteId: null,
+        inputs: parsed.value,
+        result: { ...result, conversion: conversion.value },
+      };
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<string | { error: string }>,
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res
+      .status(405)
+      .json({ error: 'Method Not Allowed. Use POST with a JSON body.' });
+  }
+
+  const format = normaliseQuoteExportFormat(req.body?.format ?? 'html');
+  if (!format) {
+    return res.status(400).json({ error: 'format must be csv, json or html.' });
+  }
+
+  try {
+    const calculation = await loadCalculation(req.body);
+    if ('error' in calculation) {
+      return res.status(calculation.status).json({ error: calculation.error });
+    }
+
+    const [agencies, procedures] = await Promise.all([
+      createSupabaseFeeDataSource().getAgencies(),
+      listProcedures(),
+    ]);
+    const { agencyId, procedureId } = calculation.inputs;
+    const document: QuoteDocument = {
+      ...calculation,
+      generatedAt: new Date().toISOString(),
+      agencyName:
+        agencies.find((agency) => agency.id === agencyId)?.name ?? agencyId,
+      procedureName:
+        procedures.find((procedure) => procedure.id === procedureId)?.name ??
+        `Procedure ${procedureId}`,
+    };
+
+    const file = exportQuote(document, format);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `${format === 'html' ? 'inline' : 'attachment'}; filename="${file.fileName}"`,
+    );
+    return res.status(200).send(file.body);
+  } catch (error) {
+    console.error('Fee export API error:', error);
+    const message =
+      error instanceof Error ? error.message : 'Unexpected error occurred.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,35 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listCurrencies, loadExchangeRates } from '@/lib/fees/exchangeRates';
+import type { ExchangeRateEntry } from '@/lib/fees/types';
+
+type ExchangeRatesResponse =
+  | {
+      baseCurrency: string;
+      currencies: string[];
+      rates: ExchangeRateEntry[];
+    }
+  | {
+      error: string;
+    };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ExchangeRatesResponse>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const table = await loadExchangeRates();
+    return res.status(200).json({
+      baseCurrency: table.baseCurrency,
+      currencies: listCurrencies(table),
+      rates: table.rates,
+    });
+  } catch (error) {
+    console.error('Exchange rates API error:', error);
+    return res.status(500).json({ error: 'Unable to load exchange rates.' });
+  }
+}
@@ -0,0 +1,55 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { normaliseAsOfDate } from '@/lib/fees/schedule';
+import { createSupabaseFeeDataSource } from '@/lib/fees/supabaseDataSource';
+import type { UnitComponent } from '@/lib/fees/types';
+import { listUnitComponents } from '@/lib/fees/unitComponents';
+import { getQueryValue } from '@/lib/queryParams';
+
+type ProcedureComponentsResponse =
+  | {
+      components: UnitComponent[];
+    }
+  | {
+      error: string;
+    };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ProcedureComponentsResponse>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const procedureId = Number(getQueryValue(req.query.id));
+  if (Number.isNaN(procedureId)) {
+    return res.status(400).json({ error: 'Procedure id must be a number.' });
+  }
+
+  const asOfDate = normaliseAsOfDate(getQueryValue(req.query.asOfDate));
+  if (!asOfDate) {
+    return res
+      .status(400)
+      .json({ error: 'asOfDate must be a date in YYYY-MM-DD format.' });
+  }
+
+  try {
+    const components = await listUnitComponents(
+      {
+        procedureId,
+        agencyId: getQueryValue(req.query.agencyId),
+        role: getQueryValue(req.query.role),
+      },
+      createSupabaseFeeDataSource(),
+      asOfDate,
+    );
+
+    return res.status(200).json({ components });
+  } catch (error) {
+    console.error('Procedure components API error:', error);
+    return res
+      .status(500)
+      .json({ error: 'Unable to load procedure components.' });
+  }
+}
@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listRoles } from '@/lib/fees/roles';
+import { normaliseAsOfDate } from '@/lib/fees/schedule';
+import { createSupabaseFeeDataSource } from '@/lib/fees/supabaseDataSource';
+import type { FeeRoleOption } from '@/lib/fees/types';
+import { getQueryValue } from '@/lib/queryParams';
+
+type ProcedureRolesResponse =
+  | {
+      roles: FeeRoleOption[];
+    }
+  | {
+      error: string;
+    };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ProcedureRolesResponse>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const procedureId = Number(getQueryValue(req.query.id));
+  if (Number.isNaN(procedureId)) {
+    return res.status(400).json({ error: 'Procedure id must be a number.' });
+  }
+
+  const asOfDate = normaliseAsOfDate(getQueryValue(req.query.asOfDate));
+  if (!asOfDate) {
+    return res
+      .status(400)
+      .json({ error: 'asOfDate must be a date in YYYY-MM-DD format.' });
+  }
+
+  try {
+    const roles = await listRoles(
+      procedureId,
+      getQueryValue(req.query.agencyId),
+      createSupabaseFeeDataSource(),
+      asOfDate,
+    );
+
+    return res.status(200).json({ roles });
+  } catch (error) {
+    console.error('Procedure roles API error:', error);
+    return res.status(500).json({ error: 'Unable to load roles.' });
+  }
+}
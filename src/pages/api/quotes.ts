@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin } from '@/lib/adminAuth';
+import { listQuotes } from '@/lib/fees/quoteStore';
+import { parseQuoteFilters } from '@/lib/fees/request';
+import type { FeeQuoteSummary } from '@/lib/fees/types';
+import { getQueryValue } from '@/lib/queryParams';
+
+type QuotesResponse =
+  | {
+      quotes: FeeQuoteSummary[];
+    }
+  | {
+      error: string;
+    };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<QuotesResponse>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  // Listing exposes every saved quote, so it is limited to admins. A single
+  // quote is still readable by anyone who has its id.
+  if (!requireAdmin(req, res)) {
+    return;
+  }
+
+  const filters = parseQuoteFilters({
+    agencyId: getQueryValue(req.query.agencyId),
+    procedureId: getQueryValue(req.query.procedureId),
+    from: getQueryValue(req.query.from),
+    to: getQueryValue(req.query.to),
+  });
+  if ('error' in filters) {
+    return res.status(400).json({ error: filters.error });
+  }
+
+  try {
+    return res.status(200).json({ quotes: await listQuotes(filters.value) });
+  } catch (error) {
+    console.error('Quotes API error:', error);
+    return res.status(500).json({ error: 'Unable to load quotes.' });
+  }
+}
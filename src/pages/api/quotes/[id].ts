@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getQuote, isQuoteId } from '@/lib/fees/quoteStore';
+import type { FeeQuote } from '@/lib/fees/types';
+import { getQueryValue } from '@/lib/queryParams';
+
+type QuoteResponse = FeeQuote | { error: string };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<QuoteResponse>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const id = getQueryValue(req.query.id);
+  if (!isQuoteId(id)) {
+    return res.status(400).json({ error: 'Quote id must be a UUID.' });
+  }
+
+  try {
+    const quote = await getQuote(id);
+    return quote
+      ? res.status(200).json(quote)
+      : res.status(404).json({ error: `Quote ${id} was not found.` });
+  } catch (error) {
+    console.error('Quote API error:', error);
+    return res.status(500).json({ error: 'Unable to load the quote.' });
+  }
+}
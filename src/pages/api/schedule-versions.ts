@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { listScheduleVersions } from '@/lib/fees/scheduleStore';
+import { toScheduleVersion } from '@/lib/fees/scheduleVersions';
+import type { FeeScheduleVersion } from '@/lib/fees/types';
+import { getQueryValue } from '@/lib/queryParams';
+
+type ScheduleVersionsResponse =
+  | {
+      versions: FeeScheduleVersion[];
+    }
+  | {
+      error: string;
+    };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ScheduleVersionsResponse>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const agencyId = getQueryValue(req.query.agencyId)?.trim();
+  if (!agencyId) {
+    return res.status(400).json({ error: 'agencyId is required.' });
+  }
+
+  try {
+    const versions = (await listScheduleVersions(agencyId))
+      .map((record) => toScheduleVersion(record))
+      .filter((version): version is FeeScheduleVersion => Boolean(version));
+
+    return res.status(200).json({ versions });
+  } catch (error) {
+    console.error('Schedule versions API error:', error);
+    return res.status(500).json({ error: 'Unable to load schedule versions.' });
+  }
+}
@@ -0,0 +1,66 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { parseProcedureId } from '@/lib/fees/request';
+import { getScheduleVersion } from '@/lib/fees/scheduleStore';
+import { diffScheduleVersions } from '@/lib/fees/scheduleVersions';
+import type { ScheduleVersionDiff } from '@/lib/fees/types';
+import { getQueryValue } from '@/lib/queryParams';
+
+type ScheduleDiffResponse = ScheduleVersionDiff | { error: string };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ScheduleDiffResponse>,
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const fromId = Number(getQueryValue(req.query.from));
+  const toId = Number(getQueryValue(req.query.to));
+  if (!Number.isInteger(fromId) || !Number.isInteger(toId)) {
+    return res
+      .status(400)
+      .json({ error: 'from and to must be schedule version ids.' });
+  }
+
+  const rawProcedureId = getQueryValue(req.query.procedureId);
+  const procedureId =
+    rawProcedureId === undefined ? undefined : parseProcedureId(rawProcedureId);
+  if (Number.isNaN(procedureId)) {
+    return res.status(400).json({ error: 'procedureId must be a number.' });
+  }
+
+  try {
+    const [from, to] = await Promise.all([
+      getScheduleVersion(fromId),
+      getScheduleVersion(toId),
+    ]);
+    if (!from || !to) {
+      return res
+        .status(404)
+        .json({
+          error: `Schedule version ${from ? toId : fromId} was not found.`,
+        });
+    }
+    if (from.agency_id !== to.agency_id) {
+      return res
+        .status(400)
+        .json({ error: 'Both versions must belong to the same agency.' });
+    }
+
+    const diff = diffScheduleVersions(from, to, procedureId);
+    if (!diff) {
+      return res
+        .status(500)
+        .json({ error: 'The schedule versions could not be read.' });
+    }
+
+    return res.status(200).json(diff);
+  } catch (error) {
+    console.error('Schedule diff API error:', error);
+    const message =
+      error instanceof Error ? error.message : 'Unexpected error occurred.';
+    return res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,115 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { calculateFee } from '@/lib/fees/engine';
+import {
+  parseCalculationRequest,
+  type ParsedRequest,
+} from '@/lib/fees/request';
+import { normaliseAsOfDate } from '@/lib/fees/schedule';
+import { getScheduleVersion } from '@/lib/fees/scheduleStore';
+import {
+  describeImpact,
+  getVersionAsOfDate,
+  getVersionRules,
+  withScheduleRules,
+} from '@/lib/fees/scheduleVersions';
+import { createSupabaseFeeDataSource } from '@/lib/fees/supabaseDataSource';
+import type { ScheduleVersionImpact } from '@/lib/fees/types';
+
+type ScheduleImpactResponse = ScheduleVersionImpact | { error: string };
+
+function parseVersionDate(
+  value: unknown,
+  field: string,
+): ParsedRequest<string | null> {
+  if (value === undefined || value === null || value === '') {
+    return { value: null };
+  }
+
+  const date = normaliseAsOfDate(value);
+  return date
+    ? { value: date }
+    : { error: `${field} must be a date in YYYY-MM-DD format.` };
+}
+
+// Prices the same request under two schedule versions of the agency. Each
+// version is priced at its own `fromAsOfDate` / `toAsOfDate`, defaulting to the
+// day the version was recorded.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ScheduleImpactResponse>,
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res
+      .status(405)
+      .json({ error: 'Method Not Allowed. Use POST with a JSON body.' });
+  }
+
+  const parsed = parseCalculationRequest(req.body);
+  if ('error' in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  const fromId = Number(req.body?.fromVersionId);
+  const toId = Number(req.body?.toVersionId);
+  if (!Number.isInteger(fromId) || !Number.isInteger(toId)) {
+    return res.status(400).json({
+      error: 'fromVersionId and toVersionId must be schedule version ids.',
+    });
+  }
+
+  const fromAsOfDate = parseVersionDate(req.body?.fromAsOfDate, 'fromAsOfDate');
+  if ('error' in fromAsOfDate) {
+    return res.status(400).json({ error: fromAsOfDate.error });
+  }
+
+  const toAsOfDate = parseVersionDate(req.body?.toAsOfDate, 'toAsOfDate');
+  if ('error' in toAsOfDate) {
+    return res.status(400).json({ error: toAsOfDate.error });
+  }
+
+  try {
+    const [from, to] = await Promise.all([
+      getScheduleVersion(fromId),
+      getScheduleVersion(toId),
+    ]);
+    if (!from || !to) {
+      return res.status(404).json({
+        error: `Schedule version ${from ? toId : fromId} was not found.`,
+      });
+    }
+    if (
+      from.agency_id !== parsed.value.agencyId ||
+      to.agency_id !== parsed.value.agencyId
+    ) {
+      return res.status(400).json({
+        error: 'Both versions must belong to the agency being calculated.',
+      });
+    }
+
+    const dataSource = createSupabaseFeeDataSource();
+    const [fromResult, toResult] = await Promise.all([
+      calculateFee(
+        {
+          ...parsed.value,
+          asOfDate: fromAsOfDate.value ?? getVersionAsOfDate(from),
+        },
+        withScheduleRules(dataSource, getVersionRules(from)),
+      ),
+      calculateFee(
+        {
+          ...parsed.value,
+          asOfDate: toAsOfDate.value ?? getVersionAsOfDate(to),
+        },
+        withScheduleRules(dataSource, getVersionRules(to)),
+      ),
+    ]);
+
+    return res.status(200).json(describeImpact(fromResult, toResult));
+  } catch (error) {
+    console.error('Schedule impact API error:', error);
+    const message =
+      error instanceof Error ? error.message : 'Unexpected error occurred.';
+    return res.status(500).json({ error: message });
+  }
+}
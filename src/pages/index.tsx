@@ -1,6 +1,47 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useState } from 'react';
 import Head from 'next/head';
+import { useRouter } from 'next/router';
+import AgencyComparisonTable from '@/components/AgencyComparisonTable';
+import CalculationHistory from '@/components/CalculationHistory';
 import ChatWindow, { type ChatMessage } from '@/components/ChatWindow';
+import DecentralisedResults from '@/components/DecentralisedResults';
+import ScenarioComparison, {
+  type FeeScenario,
+} from '@/components/ScenarioComparison';
+import UnitCostCurve from '@/components/UnitCostCurve';
+import {
+  MAX_HISTORY_ENTRIES,
+  loadCalculationHistory,
+  saveCalculationHistory,
+  type CalculationHistoryEntry,
+  type CalculationRequest,
+  type CalculationSource,
+} from '@/lib/calculationHistory';
+import {
+  parseCalculatorQuery,
+  toCalculatorQuery,
+  type CalculatorMode,
+} from '@/lib/calculatorUrl';
+import { formatConversion, formatMoney } from '@/lib/format';
+import {
+  DEFAULT_CONCERNED_ROLE,
+  DEFAULT_REFERENCE_ROLE,
+} from '@/lib/fees/request';
+import {
+  COMPANY_SIZES,
+  type AgencyComparison,
+  type ApplicantProfile,
+  type DecentralisedFeeResult,
+  type EligibilityResult,
+  type FeeBreakdownItem,
+  type FeeConversion,
+  type FeeRoleOption,
+  type FeeScheduleInfo,
+  type FeeWarning,
+  type QuoteExportFormat,
+  type UnitSensitivity,
+  type UnitComponent,
+} from '@/lib/fees/types';
 
 type Agency = {
   id: string;
@@ -17,45 +58,71 @@ type UnitEntry = {
   quantity: number;
 };
 
-type FeeBreakdownItem = {
-  componentName: string;
-  amount: number;
-};
-
 type FeeCalculationResponse = {
   totalFee: number;
+  totalFeeMinor: number;
   currency: string;
   feeBreakdown: FeeBreakdownItem[];
+  sensitivity?: UnitSensitivity[];
+  eligibility: EligibilityResult[];
+  schedule: FeeScheduleInfo;
+  warnings: FeeWarning[];
+  conversion?: FeeConversion;
+  quoteId?: string;
+};
+
+// The request behind the result on screen, so follow-up requests repeat it
+// exactly rather than reading whatever the form holds now.
+type SubmittedRequest = CalculationRequest & {
+  strict: boolean;
 };
 
-const ROLE_OPTIONS = ['National', 'CMS', 'RMS'] as const;
-type RoleOption = (typeof ROLE_OPTIONS)[number];
+type PinnedScenario = FeeScenario & {
+  request: CalculationRequest;
+};
 
 type AssistantIntentPayload = {
   agencyId: string;
   procedureId: number;
-  role: RoleOption;
+  role: string;
   units?: UnitEntry[];
 };
 
-const BASE_UNIT_INPUTS = [
-  { componentId: 2, label: 'Number of Strengths' },
-  { componentId: 4, label: 'Number of Presentations' },
-];
+const APPLICANT_FLAGS = [
+  { key: 'orphanDesignation', label: 'Orphan designation' },
+  { key: 'paediatricIndication', label: 'Paediatric indication' },
+  { key: 'publicHealthNonProfit', label: 'Public-health / non-profit' },
+] as const;
+
+const normaliseRole = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+// Roles with fee rules for the agency and procedure on the as-of date.
+const fetchAvailableRoles = async (
+  procedureId: number | string,
+  agencyId: string,
+  asOfDate: string,
+): Promise<string[]> => {
+  const params = new URLSearchParams({ agencyId });
+  if (asOfDate) {
+    params.set('asOfDate', asOfDate);
+  }
 
-const createDefaultUnits = (): UnitEntry[] =>
-  BASE_UNIT_INPUTS.map(({ componentId }) => ({ componentId, quantity: 0 }));
+  const response = await fetch(
+    `/api/procedures/${procedureId}/roles?${params}`,
+  );
+  const payload = (await response.json()) as {
+    roles?: FeeRoleOption[];
+    error?: string;
+  };
 
-const normaliseRole = (value: unknown): RoleOption | null => {
-  if (typeof value !== 'string') {
-    return null;
+  if (!response.ok) {
+    throw new Error(payload.error ?? 'Failed to load roles.');
   }
 
-  return (
-    ROLE_OPTIONS.find(
-      (role) => role.toLowerCase() === value.toLowerCase().trim(),
-    ) ?? null
-  );
+  return (payload.roles ?? [])
+    .filter((role) => role.available)
+    .map((role) => role.name);
 };
 
 const parseAssistantJsonResponse = (
@@ -117,30 +184,67 @@ const sanitiseUnitsForState = (payloadUnits?: UnitEntry[]): UnitEntry[] => {
     }
   });
 
-  return BASE_UNIT_INPUTS.map(({ componentId }) => ({
+  return Array.from(payloadMap, ([componentId, quantity]) => ({
     componentId,
-    quantity: payloadMap.get(componentId) ?? 0,
+    quantity,
   }));
 };
 
-const formatMoney = (currency: string, value: number) =>
-  `${currency} ${value.toLocaleString(undefined, {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  })}`;
+const describeBreakdownLine = (
+  item: FeeBreakdownItem,
+  currency: string,
+): string | null => {
+  if (
+    item.lineType !== 'per-unit' ||
+    item.billableQuantity === null ||
+    item.unitPrice === null
+  ) {
+    return null;
+  }
+
+  const pricing = `${item.billableQuantity} × ${formatMoney(
+    currency,
+    item.unitPrice,
+  )}`;
+  return item.includedQuantity && item.submittedQuantity !== null
+    ? `${pricing} (${item.submittedQuantity} submitted, ${item.includedQuantity} included)`
+    : pricing;
+};
 
 const formatFeeSummary = (result: FeeCalculationResponse): string => {
   const totalLine = formatMoney(result.currency, result.totalFee);
   const breakdown = result.feeBreakdown
-    .map(
-      (item) =>
-        `${item.componentName}: ${formatMoney(result.currency, item.amount)}`,
-    )
+    .map((item) => {
+      const detail = describeBreakdownLine(item, result.currency);
+      return `${item.label}: ${formatMoney(result.currency, item.amount)}${
+        detail ? ` [${detail}]` : ''
+      }`;
+    })
     .join('\n');
 
   return breakdown ? `${totalLine}\n${breakdown}` : totalLine;
 };
 
+const formatSchedule = (schedule: FeeScheduleInfo): string => {
+  const label = schedule.version ?? 'Current schedule';
+  const period =
+    schedule.effectiveFrom || schedule.effectiveTo
+      ? ` (${schedule.effectiveFrom ?? 'open'} to ${schedule.effectiveTo ?? 'open'})`
+      : '';
+  return `${label}${period}, fees as of ${schedule.asOfDate}`;
+};
+
+const WarningList = ({ warnings }: { warnings: FeeWarning[] }) =>
+  warnings.length > 0 ? (
+    <ul className="mt-2 space-y-1 text-xs font-normal text-amber-700">
+      {warnings.map((warning) => (
+        <li key={`${warning.code}-${warning.field}-${warning.componentId}`}>
+          {warning.message}
+        </li>
+      ))}
+    </ul>
+  ) : null;
+
 const createChatMessage = (
   sender: ChatMessage['sender'],
   content: string,
@@ -151,20 +255,52 @@ const createChatMessage = (
 });
 
 export default function ExpertFormPage() {
+  const router = useRouter();
   const [agencies, setAgencies] = useState<Agency[]>([]);
   const [procedures, setProcedures] = useState<ProcedureType[]>([]);
   const [selectedAgency, setSelectedAgency] = useState('');
   const [selectedProcedure, setSelectedProcedure] = useState<number | ''>('');
-  const [selectedRole, setSelectedRole] = useState<RoleOption>('National');
-  const [units, setUnits] = useState<UnitEntry[]>(() => createDefaultUnits());
+  const [selectedRole, setSelectedRole] = useState('');
+  const [roleOptions, setRoleOptions] = useState<FeeRoleOption[]>([]);
+  const [units, setUnits] = useState<UnitEntry[]>([]);
+  const [unitInputs, setUnitInputs] = useState<UnitComponent[]>([]);
+  const [isUnitInputsLoading, setIsUnitInputsLoading] = useState(false);
+  const [applicant, setApplicant] = useState<ApplicantProfile>({});
+  const [asOfDate, setAsOfDate] = useState('');
+  const [currencies, setCurrencies] = useState<string[]>([]);
+  const [targetCurrency, setTargetCurrency] = useState('');
+  const [isStrict, setIsStrict] = useState(false);
+  const [warnings, setWarnings] = useState<FeeWarning[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [feeResult, setFeeResult] = useState<FeeCalculationResponse | null>(
     null,
   );
+  const [feeRequest, setFeeRequest] = useState<SubmittedRequest | null>(null);
+  const [quoteNotice, setQuoteNotice] = useState<string | null>(null);
+  const [scenarios, setScenarios] = useState<PinnedScenario[]>([]);
+  const [scenarioName, setScenarioName] = useState('');
+  const [history, setHistory] = useState<CalculationHistoryEntry[]>([]);
+  const [isHistoryLoaded, setIsHistoryLoaded] = useState(false);
+  const [mode, setMode] = useState<CalculatorMode>('single');
+  const [concernedAgencies, setConcernedAgencies] = useState<string[]>([]);
+  const [concernedRoleOptions, setConcernedRoleOptions] = useState<
+    Record<string, string[]>
+  >({});
+  const [concernedRoles, setConcernedRoles] = useState<Record<string, string>>(
+    {},
+  );
+  const [decentralisedResult, setDecentralisedResult] =
+    useState<DecentralisedFeeResult | null>(null);
+  const [comparisons, setComparisons] = useState<AgencyComparison[] | null>(
+    null,
+  );
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState('');
   const [isChatLoading, setIsChatLoading] = useState(false);
+  const [isReferenceDataLoaded, setIsReferenceDataLoaded] = useState(false);
+  const [isUrlStateRestored, setIsUrlStateRestored] = useState(false);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
 
   useEffect(() => {
     const loadInitialData = async () => {
@@ -201,38 +337,382 @@ export default function ExpertFormPage() {
             ? loadError.message
             : 'Failed to load reference data.';
         setErrorMessage(message);
+      } finally {
+        setIsReferenceDataLoaded(true);
       }
     };
 
     void loadInitialData();
   }, []);
 
-  const resetUnits = () => {
-    setUnits(createDefaultUnits());
-  };
+  // A shared link is applied once the agencies and procedures are known, so
+  // ids that no longer exist can be dropped instead of leaving blank selects.
+  useEffect(() => {
+    if (!router.isReady || !isReferenceDataLoaded || isUrlStateRestored) {
+      return;
+    }
+
+    setIsUrlStateRestored(true);
+    const linked = parseCalculatorQuery(router.query);
+    const isKnownAgency = (id: string) =>
+      agencies.some((agency) => agency.id === id);
+    const agencyId = isKnownAgency(linked.agencyId) ? linked.agencyId : '';
+    const procedureId = procedures.some(
+      (procedure) => procedure.id === linked.procedureId,
+    )
+      ? linked.procedureId
+      : '';
+    const concernedAgencyIds = linked.concernedAgencyIds.filter(isKnownAgency);
+
+    const missing = [
+      linked.agencyId && !agencyId ? `agency "${linked.agencyId}"` : null,
+      linked.procedureId !== '' && procedureId === ''
+        ? `procedure ${linked.procedureId}`
+        : null,
+      concernedAgencyIds.length < linked.concernedAgencyIds.length
+        ? 'one or more concerned agencies'
+        : null,
+    ].filter(Boolean);
+
+    setMode(linked.mode);
+    setSelectedAgency(linked.mode === 'compare' ? '' : agencyId);
+    setSelectedProcedure(procedureId);
+    setSelectedRole(linked.role);
+    setUnits(procedureId === '' ? [] : linked.units);
+    setAsOfDate(linked.asOfDate);
+    setTargetCurrency(linked.targetCurrency);
+    setIsStrict(linked.isStrict);
+    setApplicant(linked.applicant);
+    setConcernedAgencies(concernedAgencyIds);
+
+    if (missing.length > 0) {
+      setErrorMessage(
+        `This link refers to ${missing.join(' and ')} that no longer exist. The rest of the form has been restored.`,
+      );
+    }
+  }, [
+    router.isReady,
+    router.query,
+    isReferenceDataLoaded,
+    isUrlStateRestored,
+    agencies,
+    procedures,
+  ]);
+
+  useEffect(() => {
+    if (!isUrlStateRestored) {
+      return;
+    }
+
+    const query = toCalculatorQuery({
+      mode,
+      agencyId: selectedAgency,
+      procedureId: selectedProcedure,
+      role: selectedRole,
+      units,
+      asOfDate,
+      targetCurrency,
+      isStrict,
+      applicant,
+      concernedAgencyIds: concernedAgencies,
+    });
+    if (
+      new URLSearchParams(query).toString() ===
+      new URLSearchParams(window.location.search).toString()
+    ) {
+      return;
+    }
+
+    void router.replace({ pathname: router.pathname, query }, undefined, {
+      shallow: true,
+      scroll: false,
+    });
+  }, [
+    router,
+    isUrlStateRestored,
+    mode,
+    selectedAgency,
+    selectedProcedure,
+    selectedRole,
+    units,
+    asOfDate,
+    targetCurrency,
+    isStrict,
+    applicant,
+    concernedAgencies,
+  ]);
+
+  useEffect(() => {
+    setHistory(loadCalculationHistory(window.localStorage));
+    setIsHistoryLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (isHistoryLoaded) {
+      saveCalculationHistory(window.localStorage, history);
+    }
+  }, [history, isHistoryLoaded]);
 
-  const relevantUnits = useMemo(() => {
-    if (!selectedProcedure) {
-      return [];
+  useEffect(() => {
+    const loadCurrencies = async () => {
+      try {
+        const response = await fetch('/api/exchange-rates');
+        const payload = (await response.json()) as {
+          currencies?: string[];
+          error?: string;
+        };
+
+        if (!response.ok) {
+          throw new Error(payload.error ?? 'Failed to load exchange rates.');
+        }
+
+        setCurrencies(payload.currencies ?? []);
+      } catch (loadError) {
+        console.warn('Exchange rates unavailable:', loadError);
+        setCurrencies([]);
+      }
+    };
+
+    void loadCurrencies();
+  }, []);
+
+  useEffect(() => {
+    if (selectedProcedure === '') {
+      setUnitInputs([]);
+      return;
+    }
+
+    let isCancelled = false;
+    const params = new URLSearchParams();
+    if (selectedAgency) {
+      params.set('agencyId', selectedAgency);
+    }
+    if (selectedRole) {
+      params.set('role', selectedRole);
+    }
+    if (asOfDate) {
+      params.set('asOfDate', asOfDate);
     }
 
-    return units;
-  }, [selectedProcedure, units]);
+    const loadUnitInputs = async () => {
+      setIsUnitInputsLoading(true);
+      try {
+        const response = await fetch(
+          `/api/procedures/${selectedProcedure}/components?${params}`,
+        );
+        const payload = (await response.json()) as {
+          components?: UnitComponent[];
+          error?: string;
+        };
+
+        if (!response.ok) {
+          throw new Error(payload.error ?? 'Failed to load unit inputs.');
+        }
+
+        if (!isCancelled) {
+          setUnitInputs(payload.components ?? []);
+        }
+      } catch (loadError) {
+        if (!isCancelled) {
+          setUnitInputs([]);
+          setErrorMessage(
+            loadError instanceof Error
+              ? loadError.message
+              : 'Failed to load unit inputs.',
+          );
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsUnitInputsLoading(false);
+        }
+      }
+    };
+
+    void loadUnitInputs();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [asOfDate, selectedAgency, selectedProcedure, selectedRole]);
+
+  useEffect(() => {
+    if (selectedProcedure === '') {
+      setRoleOptions([]);
+      return;
+    }
+
+    let isCancelled = false;
+    const params = new URLSearchParams();
+    if (selectedAgency) {
+      params.set('agencyId', selectedAgency);
+    }
+    if (asOfDate) {
+      params.set('asOfDate', asOfDate);
+    }
+
+    const loadRoles = async () => {
+      try {
+        const response = await fetch(
+          `/api/procedures/${selectedProcedure}/roles?${params}`,
+        );
+        const payload = (await response.json()) as {
+          roles?: FeeRoleOption[];
+          error?: string;
+        };
+
+        if (!response.ok) {
+          throw new Error(payload.error ?? 'Failed to load roles.');
+        }
+
+        if (isCancelled) {
+          return;
+        }
+
+        const roles = payload.roles ?? [];
+        setRoleOptions(roles);
+        setSelectedRole((current) =>
+          roles.some((role) => role.available && role.name === current)
+            ? current
+            : (roles.find((role) => role.available)?.name ?? ''),
+        );
+      } catch (loadError) {
+        if (!isCancelled) {
+          setRoleOptions([]);
+          setErrorMessage(
+            loadError instanceof Error
+              ? loadError.message
+              : 'Failed to load roles.',
+          );
+        }
+      }
+    };
+
+    void loadRoles();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [asOfDate, selectedAgency, selectedProcedure]);
+
+  useEffect(() => {
+    if (mode !== 'decentralised' || selectedProcedure === '') {
+      setConcernedRoleOptions({});
+      return;
+    }
+
+    let isCancelled = false;
+
+    const loadAgencyRoles = async (agencyId: string) =>
+      [
+        agencyId,
+        await fetchAvailableRoles(selectedProcedure, agencyId, asOfDate),
+      ] as const;
+
+    const loadConcernedRoles = async () => {
+      try {
+        const entries = await Promise.all(
+          concernedAgencies.map(loadAgencyRoles),
+        );
+        if (isCancelled) {
+          return;
+        }
+
+        setConcernedRoleOptions(Object.fromEntries(entries));
+        setConcernedRoles((current) =>
+          Object.fromEntries(
+            entries.map(([agencyId, roles]) => [
+              agencyId,
+              roles.includes(current[agencyId])
+                ? current[agencyId]
+                : roles.includes(DEFAULT_CONCERNED_ROLE)
+                  ? DEFAULT_CONCERNED_ROLE
+                  : (roles[0] ?? ''),
+            ]),
+          ),
+        );
+      } catch (loadError) {
+        if (!isCancelled) {
+          setConcernedRoleOptions({});
+          setErrorMessage(
+            loadError instanceof Error
+              ? loadError.message
+              : 'Failed to load roles.',
+          );
+        }
+      }
+    };
+
+    void loadConcernedRoles();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [asOfDate, concernedAgencies, mode, selectedProcedure]);
+
+  const resetUnits = () => {
+    setUnits([]);
+  };
+
+  const getUnitQuantity = (componentId: number) =>
+    units.find((entry) => entry.componentId === componentId)?.quantity ?? 0;
 
   const handleUnitChange = (componentId: number, quantity: number) => {
-    setUnits((prev) =>
-      prev.map((entry) =>
-        entry.componentId === componentId ? { ...entry, quantity } : entry,
-      ),
+    setUnits((prev) => [
+      ...prev.filter((entry) => entry.componentId !== componentId),
+      { componentId, quantity },
+    ]);
+    setWarnings((prev) =>
+      prev.filter((warning) => warning.componentId !== componentId),
     );
+    // The curve describes the quantities it was calculated for.
+    setFeeResult((prev) => prev && { ...prev, sensitivity: undefined });
+  };
+
+  const getComponentWarnings = (componentId: number) =>
+    warnings.filter((warning) => warning.componentId === componentId);
+
+  const getComponentSensitivity = (componentId: number) =>
+    mode === 'single'
+      ? feeResult?.sensitivity?.find(
+          (entry) => entry.componentId === componentId,
+        )
+      : undefined;
+
+  const unitComponentIds = new Set(
+    unitInputs.map((unitInput) => unitInput.componentId),
+  );
+  const roleWarnings = warnings.filter((warning) => warning.field === 'role');
+  const otherWarnings = warnings.filter(
+    (warning) =>
+      warning.field !== 'role' &&
+      (warning.componentId === null ||
+        !unitComponentIds.has(warning.componentId)),
+  );
+
+  const clearResults = () => {
+    setFeeResult(null);
+    setDecentralisedResult(null);
+    setComparisons(null);
+  };
+
+  const handleApplicantChange = (update: Partial<ApplicantProfile>) => {
+    setApplicant((prev) => ({ ...prev, ...update }));
+    clearResults();
   };
 
   const calculateFee = async (
     override?: Partial<{
       agencyId: string;
       procedureId: number;
-      role: RoleOption;
+      role: string;
       units: UnitEntry[];
+      applicant: ApplicantProfile;
+      asOfDate: string;
+      targetCurrency: string;
+      strict: boolean;
+      source: CalculationSource;
+      recordHistory: boolean;
+      includeSensitivity: boolean;
     }>,
   ) => {
     const agencyIdRaw = override?.agencyId ?? selectedAgency;
@@ -250,6 +730,8 @@ export default function ExpertFormPage() {
     }
 
     setErrorMessage(null);
+    setWarnings([]);
+    setQuoteNotice(null);
 
     const unitsSource = override?.units ?? units;
     const payloadUnits = unitsSource
@@ -259,38 +741,161 @@ export default function ExpertFormPage() {
       }))
       .filter((unit) => unit.quantity > 0);
 
+    const requestBody: SubmittedRequest = {
+      agencyId,
+      procedureId,
+      role,
+      units: payloadUnits,
+      applicant: override?.applicant ?? applicant,
+      asOfDate: (override?.asOfDate ?? asOfDate) || undefined,
+      targetCurrency: (override?.targetCurrency ?? targetCurrency) || undefined,
+      strict: override?.strict ?? isStrict,
+    };
     const response = await fetch('/api/calculate-fee', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
-        agencyId,
-        procedureId,
-        role,
-        units: payloadUnits,
+        ...requestBody,
+        includeSensitivity: override?.includeSensitivity ?? false,
       }),
     });
 
     if (!response.ok) {
-      const payload = (await response.json()) as { error?: string };
+      const payload = (await response.json()) as {
+        error?: string;
+        warnings?: FeeWarning[];
+      };
+      setWarnings(payload.warnings ?? []);
       throw new Error(payload.error ?? 'Failed to calculate fee.');
     }
 
     const result = (await response.json()) as FeeCalculationResponse;
     setFeeResult(result);
+    setFeeRequest(requestBody);
+    if (override?.recordHistory ?? true) {
+      setHistory((prev) =>
+        [
+          {
+            id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            createdAt: new Date().toISOString(),
+            source: override?.source ?? 'form',
+            request: requestBody,
+            totalFee: result.totalFee,
+            currency: result.currency,
+          },
+          ...prev,
+        ].slice(0, MAX_HISTORY_ENTRIES),
+      );
+    }
+    setWarnings(result.warnings);
     return result;
   };
 
+  const handleModeChange = (nextMode: CalculatorMode) => {
+    setMode(nextMode);
+    setWarnings([]);
+    if (nextMode === 'compare') {
+      setSelectedAgency('');
+    }
+    if (
+      nextMode === 'decentralised' &&
+      roleOptions.some(
+        (role) => role.available && role.name === DEFAULT_REFERENCE_ROLE,
+      )
+    ) {
+      setSelectedRole(DEFAULT_REFERENCE_ROLE);
+    }
+    clearResults();
+  };
+
+  const toggleConcernedAgency = (agencyId: string) => {
+    setConcernedAgencies((prev) =>
+      prev.includes(agencyId)
+        ? prev.filter((id) => id !== agencyId)
+        : [...prev, agencyId],
+    );
+    setDecentralisedResult(null);
+  };
+
+  const calculateDecentralisedFee = async () => {
+    setErrorMessage(null);
+
+    const response = await fetch('/api/calculate-fee/decentralised', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        procedureId: selectedProcedure,
+        referenceAgencyId: selectedAgency,
+        referenceRole: selectedRole,
+        concernedAgencyIds: concernedAgencies.filter(
+          (agencyId) => agencyId !== selectedAgency,
+        ),
+        concernedRoles,
+        units: units.filter((unit) => unit.quantity > 0),
+        applicant,
+        asOfDate: asOfDate || undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      const payload = (await response.json()) as { error?: string };
+      throw new Error(payload.error ?? 'Failed to calculate fees.');
+    }
+
+    setDecentralisedResult((await response.json()) as DecentralisedFeeResult);
+  };
+
+  const compareAgencyFees = async (currency = targetCurrency) => {
+    setErrorMessage(null);
+
+    const response = await fetch('/api/calculate-fee/compare', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        procedureId: selectedProcedure,
+        role: selectedRole,
+        units: units.filter((unit) => unit.quantity > 0),
+        applicant,
+        asOfDate: asOfDate || undefined,
+        targetCurrency: currency || undefined,
+      }),
+    });
+
+    const payload = (await response.json()) as {
+      comparisons?: AgencyComparison[];
+      error?: string;
+    };
+
+    if (!response.ok) {
+      throw new Error(payload.error ?? 'Failed to compare agencies.');
+    }
+
+    setComparisons(payload.comparisons ?? []);
+  };
+
   const handleCalculate = async () => {
-    if (!selectedAgency || !selectedProcedure || !selectedRole) {
+    const isMissingSelection =
+      mode === 'decentralised'
+        ? !selectedAgency || !selectedRole || concernedAgencies.length === 0
+        : mode === 'compare'
+          ? !selectedRole
+          : !selectedAgency || !selectedRole;
+    if (!selectedProcedure || isMissingSelection) {
       setErrorMessage('Please complete all selections before calculating.');
       return;
     }
 
     setIsLoading(true);
     try {
-      await calculateFee();
+      if (mode === 'decentralised') {
+        await calculateDecentralisedFee();
+      } else if (mode === 'compare') {
+        await compareAgencyFees();
+      } else {
+        await calculateFee({ includeSensitivity: true });
+      }
     } catch (error) {
-      setFeeResult(null);
+      clearResults();
       const message =
         error instanceof Error ? error.message : 'Something went wrong.';
       setErrorMessage(message);
@@ -299,6 +904,237 @@ export default function ExpertFormPage() {
     }
   };
 
+  const handleTargetCurrencyChange = async (currency: string) => {
+    setTargetCurrency(currency);
+
+    const hasResult =
+      mode === 'compare' ? Boolean(comparisons) : Boolean(feeResult);
+    if (mode === 'decentralised' || !hasResult) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      if (mode === 'compare') {
+        await compareAgencyFees(currency);
+      } else if (feeRequest) {
+        // Only the display currency changed, so this is not a new entry.
+        await calculateFee({
+          ...feeRequest,
+          asOfDate: feeRequest.asOfDate ?? '',
+          targetCurrency: currency,
+          recordHistory: false,
+        });
+      }
+    } catch (error) {
+      clearResults();
+      const message =
+        error instanceof Error ? error.message : 'Something went wrong.';
+      setErrorMessage(message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setIsLinkCopied(true);
+      window.setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch (copyError) {
+      console.warn('Copying the link failed:', copyError);
+      setErrorMessage('Unable to copy the link. Copy it from the address bar.');
+    }
+  };
+
+  // Quotes are priced again on the server rather than stored from the browser.
+  // The request behind the result on screen is resent, and the user is told
+  // if the schedule or exchange rates have moved since it was calculated.
+  const handleSaveQuote = async () => {
+    if (!feeResult || !feeRequest) {
+      return;
+    }
+
+    setIsLoading(true);
+    setErrorMessage(null);
+    try {
+      const response = await fetch('/api/calculate-fee', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...feeRequest,
+          saveQuote: true,
+        }),
+      });
+      const payload = (await response.json()) as FeeCalculationResponse & {
+        error?: string;
+      };
+
+      if (!response.ok) {
+        throw new Error(payload.error ?? 'Failed to save the quote.');
+      }
+
+      const isUnchanged =
+        payload.currency === feeResult.currency &&
+        payload.totalFeeMinor === feeResult.totalFeeMinor &&
+        payload.conversion?.totalFeeMinor ===
+          feeResult.conversion?.totalFeeMinor;
+
+      if (isUnchanged) {
+        setFeeResult({ ...feeResult, quoteId: payload.quoteId });
+        return;
+      }
+
+      setFeeResult(payload);
+      setWarnings(payload.warnings);
+      setQuoteNotice(
+        `The fee changed after it was calculated, so the quote was saved at ${formatMoney(
+          payload.currency,
+          payload.totalFee,
+        )} instead of ${formatMoney(
+          feeResult.currency,
+          feeResult.totalFee,
+        )}. The fee schedule or exchange rates were updated in the meantime.`,
+      );
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Something went wrong.';
+      setErrorMessage(message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePinScenario = () => {
+    if (!feeResult || !feeRequest) {
+      return;
+    }
+
+    const agencyName =
+      agencies.find((agency) => agency.id === feeRequest.agencyId)?.name ??
+      feeRequest.agencyId;
+    const procedureName =
+      procedures.find((procedure) => procedure.id === feeRequest.procedureId)
+        ?.name ?? `Procedure ${feeRequest.procedureId}`;
+    const unitCount = feeRequest.units.reduce(
+      (total, unit) => total + unit.quantity,
+      0,
+    );
+
+    setScenarios((prev) => [
+      ...prev,
+      {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        name: scenarioName.trim() || `Scenario ${prev.length + 1}`,
+        summary: `${agencyName} · ${procedureName} · ${feeRequest.role} · ${unitCount} units`,
+        result: feeResult,
+        request: feeRequest,
+      },
+    ]);
+    setScenarioName('');
+  };
+
+  const handleRenameScenario = (id: string, name: string) => {
+    setScenarios((prev) =>
+      prev.map((scenario) =>
+        scenario.id === id ? { ...scenario, name } : scenario,
+      ),
+    );
+  };
+
+  const handleRemoveScenario = (id: string) => {
+    setScenarios((prev) => prev.filter((scenario) => scenario.id !== id));
+  };
+
+  const applyCalculationRequest = (request: CalculationRequest) => {
+    setMode('single');
+    setSelectedAgency(request.agencyId);
+    setSelectedProcedure(request.procedureId);
+    setSelectedRole(request.role);
+    setUnits(request.units);
+    setApplicant(request.applicant);
+    setAsOfDate(request.asOfDate ?? '');
+    setTargetCurrency(request.targetCurrency ?? '');
+    setWarnings([]);
+    setErrorMessage(null);
+    clearResults();
+  };
+
+  // Loads a pinned scenario back into the form so one input can be changed
+  // and the result pinned next to the original.
+  const handleDuplicateScenario = (id: string) => {
+    const scenario = scenarios.find((candidate) => candidate.id === id);
+    if (!scenario) {
+      return;
+    }
+
+    applyCalculationRequest(scenario.request);
+    setScenarioName(`${scenario.name} (copy)`);
+  };
+
+  const handleClearHistory = () => {
+    if (window.confirm('Clear the calculation history in this browser?')) {
+      setHistory([]);
+    }
+  };
+
+  const handleExportHistory = () => {
+    const url = URL.createObjectURL(
+      new Blob([`${JSON.stringify(history, null, 2)}\n`], {
+        type: 'application/json',
+      }),
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'calculation-history.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Exports are rendered by the server from the saved quote, or from the same
+  // request that produced the result on screen.
+  const handleExport = async (format: QuoteExportFormat) => {
+    if (!feeResult || !feeRequest) {
+      return;
+    }
+
+    const printWindow = format === 'html' ? window.open('', '_blank') : null;
+    try {
+      const response = await fetch('/api/calculate-fee/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          feeResult.quoteId
+            ? { quoteId: feeResult.quoteId, format }
+            : { ...feeRequest, format },
+        ),
+      });
+
+      if (!response.ok) {
+        const payload = (await response.json()) as { error?: string };
+        throw new Error(payload.error ?? 'Export failed.');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      if (printWindow) {
+        printWindow.location.href = url;
+        window.setTimeout(() => URL.revokeObjectURL(url), 60000);
+        return;
+      }
+
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `fee-quote-${feeResult.quoteId ?? 'calculation'}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      printWindow?.close();
+      setErrorMessage(
+        error instanceof Error ? error.message : 'Export failed.',
+      );
+    }
+  };
+
   const handleChatSend = async () => {
     const message = chatInput.trim();
     if (!message || isChatLoading) {
@@ -331,17 +1167,40 @@ export default function ExpertFormPage() {
       const parsedIntent = parseAssistantJsonResponse(payload);
       if (parsedIntent) {
         const sanitisedUnits = sanitiseUnitsForState(parsedIntent.units);
+        // The role is checked against the agency and procedure the assistant
+        // picked, not the ones currently selected in the form.
+        const role = (
+          await fetchAvailableRoles(
+            parsedIntent.procedureId,
+            parsedIntent.agencyId,
+            asOfDate,
+          )
+        ).find(
+          (known) => known.toLowerCase() === parsedIntent.role.toLowerCase(),
+        );
         setSelectedAgency(parsedIntent.agencyId);
         setSelectedProcedure(parsedIntent.procedureId);
-        setSelectedRole(parsedIntent.role);
+        setSelectedRole(role ?? '');
         setUnits(sanitisedUnits);
 
+        if (!role) {
+          setChatMessages((prev) => [
+            ...prev,
+            createChatMessage(
+              'assistant',
+              `${parsedIntent.agencyId} has no fees for the role "${parsedIntent.role}" in procedure ${parsedIntent.procedureId}. Pick a role in the form and calculate again.`,
+            ),
+          ]);
+          return;
+        }
+
         try {
           const result = await calculateFee({
             agencyId: parsedIntent.agencyId,
             procedureId: parsedIntent.procedureId,
-            role: parsedIntent.role,
+            role,
             units: sanitisedUnits,
+            source: 'assistant',
           });
 
           setChatMessages((prev) => [
@@ -417,18 +1276,44 @@ export default function ExpertFormPage() {
             </header>
 
             <div className="space-y-6">
+              <div className="inline-flex rounded-2xl bg-slate-100 p-1 text-sm font-semibold">
+                {(
+                  [
+                    ['single', 'Single agency'],
+                    ['decentralised', 'Decentralised / MRP'],
+                    ['compare', 'Compare agencies'],
+                  ] as const
+                ).map(([value, label]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    className={`rounded-xl px-4 py-2 transition ${
+                      mode === value
+                        ? 'bg-white text-slate-900 shadow-sm'
+                        : 'text-slate-500 hover:text-slate-700'
+                    }`}
+                    onClick={() => handleModeChange(value)}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
               <div className="grid gap-6 sm:grid-cols-2">
                 <label className="flex flex-col text-sm font-medium text-slate-700">
-                  Agency
+                  {mode === 'decentralised' ? 'Reference Agency' : 'Agency'}
                   <select
                     className="mt-2 rounded-xl border border-slate-300 bg-white px-3 py-2 text-base shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100"
                     value={selectedAgency}
+                    disabled={mode === 'compare'}
                     onChange={(event) => {
                       setSelectedAgency(event.target.value);
-                      setFeeResult(null);
+                      clearResults();
                     }}
                   >
-                    <option value="">Select an Agency</option>
+                    <option value="">
+                      {mode === 'compare' ? 'All agencies' : 'Select an Agency'}
+                    </option>
                     {agencies.map((agency) => (
                       <option key={agency.id} value={agency.id}>
                         {agency.name}
@@ -449,7 +1334,7 @@ export default function ExpertFormPage() {
                           : Number(event.target.value);
                       setSelectedProcedure(nextValue);
                       resetUnits();
-                      setFeeResult(null);
+                      clearResults();
                     }}
                   >
                     <option value="">Select a Procedure</option>
@@ -462,21 +1347,160 @@ export default function ExpertFormPage() {
                 </label>
               </div>
 
-              <label className="flex flex-col text-sm font-medium text-slate-700">
-                Role
-                <select
-                  className="mt-2 w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-base shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100"
-                  value={selectedRole}
-                  onChange={(event) => {
-                    setSelectedRole(event.target.value as RoleOption);
-                    setFeeResult(null);
-                  }}
-                >
-                  <option value="National">National</option>
-                  <option value="CMS">CMS</option>
-                  <option value="RMS">RMS</option>
-                </select>
-              </label>
+              <div className="grid gap-6 sm:grid-cols-2">
+                {mode === 'decentralised' ? (
+                  <fieldset className="flex flex-col text-sm font-medium text-slate-700 sm:col-span-2">
+                    <legend>Concerned Agencies</legend>
+                    <div className="mt-2 max-h-40 space-y-1 overflow-y-auto rounded-xl border border-slate-300 bg-white px-3 py-2">
+                      {agencies
+                        .filter((agency) => agency.id !== selectedAgency)
+                        .map((agency) => (
+                          <div
+                            key={agency.id}
+                            className="flex items-center gap-2 font-normal"
+                          >
+                            <label className="flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                                checked={concernedAgencies.includes(agency.id)}
+                                onChange={() =>
+                                  toggleConcernedAgency(agency.id)
+                                }
+                              />
+                              {agency.name}
+                            </label>
+                            {concernedAgencies.includes(agency.id) &&
+                            concernedRoleOptions[agency.id] ? (
+                              concernedRoleOptions[agency.id].length > 0 ? (
+                                <select
+                                  aria-label={`Role for ${agency.name}`}
+                                  className="ml-auto rounded-lg border border-slate-300 bg-white px-2 py-0.5 text-xs"
+                                  value={concernedRoles[agency.id] ?? ''}
+                                  onChange={(event) => {
+                                    setConcernedRoles((prev) => ({
+                                      ...prev,
+                                      [agency.id]: event.target.value,
+                                    }));
+                                    setDecentralisedResult(null);
+                                  }}
+                                >
+                                  {concernedRoleOptions[agency.id].map(
+                                    (role) => (
+                                      <option key={role} value={role}>
+                                        {role}
+                                      </option>
+                                    ),
+                                  )}
+                                </select>
+                              ) : (
+                                <span className="ml-auto text-xs text-rose-700">
+                                  No fees for this procedure
+                                </span>
+                              )
+                            ) : null}
+                          </div>
+                        ))}
+                    </div>
+                  </fieldset>
+                ) : null}
+
+                <label className="flex flex-col text-sm font-medium text-slate-700">
+                  {mode === 'decentralised' ? 'Reference Role' : 'Role'}
+                  <select
+                    className="mt-2 w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-base shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100"
+                    value={selectedRole}
+                    disabled={roleOptions.length === 0}
+                    onChange={(event) => {
+                      setSelectedRole(event.target.value);
+                      clearResults();
+                    }}
+                  >
+                    <option value="">
+                      {selectedProcedure
+                        ? 'Select a Role'
+                        : 'Select a procedure first'}
+                    </option>
+                    {roleOptions.map((role) => (
+                      <option
+                        key={role.name}
+                        value={role.name}
+                        disabled={!role.available}
+                      >
+                        {role.available
+                          ? role.name
+                          : `${role.name} (not offered by this agency)`}
+                      </option>
+                    ))}
+                  </select>
+                  <WarningList warnings={roleWarnings} />
+                </label>
+
+                <label className="flex flex-col text-sm font-medium text-slate-700">
+                  Fees as of
+                  <input
+                    type="date"
+                    className="mt-2 rounded-xl border border-slate-300 bg-white px-3 py-2 text-base shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100"
+                    value={asOfDate}
+                    onChange={(event) => {
+                      setAsOfDate(event.target.value);
+                      clearResults();
+                    }}
+                  />
+                </label>
+              </div>
+
+              <section className="rounded-2xl border border-slate-200 bg-slate-50/50 p-6">
+                <p className="text-base font-semibold text-slate-900">
+                  Applicant
+                </p>
+                <p className="text-sm text-slate-600">
+                  Used to apply reductions and exemptions the applicant is
+                  eligible for.
+                </p>
+
+                <div className="mt-6 grid gap-4 sm:grid-cols-2">
+                  <label className="flex flex-col text-sm font-medium text-slate-700">
+                    Company size
+                    <select
+                      className="mt-2 rounded-xl border border-slate-300 bg-white px-3 py-2 text-base shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100"
+                      value={applicant.companySize ?? ''}
+                      onChange={(event) =>
+                        handleApplicantChange({
+                          companySize: COMPANY_SIZES.find(
+                            (size) => size === event.target.value,
+                          ),
+                        })
+                      }
+                    >
+                      <option value="">Not specified</option>
+                      {COMPANY_SIZES.map((size) => (
+                        <option key={size} value={size}>
+                          {size.charAt(0).toUpperCase() + size.slice(1)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <div className="flex flex-col gap-2 text-sm font-medium text-slate-700">
+                    {APPLICANT_FLAGS.map(({ key, label }) => (
+                      <label key={key} className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                          checked={Boolean(applicant[key])}
+                          onChange={(event) =>
+                            handleApplicantChange({
+                              [key]: event.target.checked,
+                            })
+                          }
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </section>
 
               <section className="rounded-2xl border border-slate-200 bg-slate-50/50 p-6">
                 <div className="flex items-center justify-between">
@@ -489,46 +1513,80 @@ export default function ExpertFormPage() {
                       will appear here.
                     </p>
                   </div>
-                  {selectedProcedure ? null : (
+                  {!selectedProcedure ? (
                     <span className="rounded-full bg-slate-200 px-3 py-1 text-xs font-medium uppercase tracking-wide text-slate-600">
                       Select a procedure
                     </span>
-                  )}
+                  ) : isUnitInputsLoading ? (
+                    <span className="rounded-full bg-indigo-50 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-indigo-700">
+                      Loading…
+                    </span>
+                  ) : null}
                 </div>
 
                 <div className="mt-6 grid gap-4 sm:grid-cols-2">
-                  {relevantUnits.map((unitEntry) => {
-                    const inputMeta = BASE_UNIT_INPUTS.find(
-                      (unit) => unit.componentId === unitEntry.componentId,
-                    );
-                    if (!inputMeta) {
-                      return null;
-                    }
-
-                    return (
-                      <label
-                        key={unitEntry.componentId}
-                        className="flex flex-col rounded-2xl border border-slate-200 bg-white/70 p-4 text-sm font-medium text-slate-700 shadow-inner"
-                      >
-                        {inputMeta.label}
-                        <input
-                          type="number"
-                          min={0}
-                          step={1}
-                          inputMode="numeric"
-                          className="mt-2 rounded-xl border border-slate-300 px-3 py-2 text-base text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100"
-                          value={unitEntry.quantity}
-                          onChange={(event) =>
-                            handleUnitChange(
-                              unitEntry.componentId,
-                              Math.max(0, Number(event.target.value)),
-                            )
-                          }
+                  {unitInputs.map((unitInput) => (
+                    <label
+                      key={unitInput.componentId}
+                      className="flex flex-col rounded-2xl border border-slate-200 bg-white/70 p-4 text-sm font-medium text-slate-700 shadow-inner"
+                    >
+                      {unitInput.label}
+                      <input
+                        type="number"
+                        min={unitInput.minQuantity}
+                        max={unitInput.maxQuantity ?? undefined}
+                        step={1}
+                        inputMode="numeric"
+                        className="mt-2 rounded-xl border border-slate-300 px-3 py-2 text-base text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100"
+                        value={getUnitQuantity(unitInput.componentId)}
+                        onChange={(event) =>
+                          handleUnitChange(
+                            unitInput.componentId,
+                            Math.max(0, Number(event.target.value)),
+                          )
+                        }
+                      />
+                      {unitInput.helpText ? (
+                        <span className="mt-2 text-xs font-normal text-slate-500">
+                          {unitInput.helpText}
+                        </span>
+                      ) : null}
+                      <WarningList
+                        warnings={getComponentWarnings(unitInput.componentId)}
+                      />
+                      {feeResult ? (
+                        <UnitCostCurve
+                          sensitivity={getComponentSensitivity(
+                            unitInput.componentId,
+                          )}
+                          currency={feeResult.currency}
                         />
-                      </label>
-                    );
-                  })}
+                      ) : null}
+                    </label>
+                  ))}
                 </div>
+
+                {selectedProcedure &&
+                !isUnitInputsLoading &&
+                unitInputs.length === 0 ? (
+                  <p className="mt-4 text-sm text-slate-500">
+                    This procedure has no unit-based components.
+                  </p>
+                ) : null}
+
+                <WarningList warnings={otherWarnings} />
+
+                {mode === 'single' ? (
+                  <label className="mt-6 flex items-center gap-2 text-sm font-medium text-slate-700">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                      checked={isStrict}
+                      onChange={(event) => setIsStrict(event.target.checked)}
+                    />
+                    Reject the calculation if any input raises a warning
+                  </label>
+                ) : null}
               </section>
 
               {errorMessage ? (
@@ -549,13 +1607,58 @@ export default function ExpertFormPage() {
           </section>
 
           <section className="mt-10 rounded-3xl bg-white p-8 shadow-sm ring-1 ring-slate-200">
-            <h2 className="text-2xl font-semibold text-slate-900">Results</h2>
-            <p className="mt-2 text-sm text-slate-600">
-              You&apos;ll see the final fee and every component&apos;s
-              contribution once a calculation completes.
-            </p>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <h2 className="text-2xl font-semibold text-slate-900">
+                  Results
+                </h2>
+                <p className="mt-2 text-sm text-slate-600">
+                  You&apos;ll see the final fee and every component&apos;s
+                  contribution once a calculation completes.
+                </p>
+              </div>
+              <button
+                type="button"
+                className="rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:bg-slate-50"
+                onClick={() => void handleCopyLink()}
+              >
+                {isLinkCopied ? 'Link copied' : 'Copy link'}
+              </button>
+              {mode !== 'decentralised' && currencies.length > 0 ? (
+                <label className="flex flex-col text-sm font-medium text-slate-700">
+                  Show totals in
+                  <select
+                    className="mt-2 rounded-xl border border-slate-300 bg-white px-3 py-2 text-base shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100"
+                    value={targetCurrency}
+                    disabled={isLoading}
+                    onChange={(event) =>
+                      void handleTargetCurrencyChange(event.target.value)
+                    }
+                  >
+                    <option value="">Agency currency</option>
+                    {currencies.map((currency) => (
+                      <option key={currency} value={currency}>
+                        {currency}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
+            </div>
 
-            {feeResult ? (
+            {mode === 'compare' && comparisons ? (
+              <AgencyComparisonTable
+                comparisons={comparisons}
+                targetCurrency={targetCurrency}
+              />
+            ) : mode === 'decentralised' && decentralisedResult ? (
+              <DecentralisedResults
+                result={decentralisedResult}
+                agencyNames={
+                  new Map(agencies.map((agency) => [agency.id, agency.name]))
+                }
+              />
+            ) : feeResult ? (
               <div className="mt-6 space-y-6">
                 <div className="rounded-2xl bg-slate-50 px-6 py-4">
                   <p className="text-sm uppercase tracking-wide text-slate-500">
@@ -564,6 +1667,81 @@ export default function ExpertFormPage() {
                   <p className="mt-2 text-3xl font-semibold text-slate-900">
                     {formatMoney(feeResult.currency, feeResult.totalFee)}
                   </p>
+                  {feeResult.conversion ? (
+                    <p className="mt-1 text-lg font-medium text-slate-700">
+                      ≈{' '}
+                      {formatMoney(
+                        feeResult.conversion.currency,
+                        feeResult.conversion.totalFee,
+                      )}
+                      <span className="ml-2 text-sm font-normal text-slate-500">
+                        {formatConversion(
+                          feeResult.currency,
+                          feeResult.conversion,
+                        )}
+                      </span>
+                    </p>
+                  ) : null}
+                  <p className="mt-2 text-sm text-slate-600">
+                    {formatSchedule(feeResult.schedule)}
+                  </p>
+                  {feeResult.quoteId ? (
+                    <p className="mt-2 text-sm text-slate-600">
+                      Saved as quote{' '}
+                      <a
+                        className="font-mono text-indigo-600 underline"
+                        href={`/api/quotes/${feeResult.quoteId}`}
+                      >
+                        {feeResult.quoteId}
+                      </a>
+                    </p>
+                  ) : null}
+                  {quoteNotice ? (
+                    <p className="mt-2 text-sm text-amber-700">{quoteNotice}</p>
+                  ) : null}
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {feeResult.quoteId ? null : (
+                      <button
+                        type="button"
+                        className="rounded-lg border border-slate-300 bg-white px-3 py-1 text-sm font-semibold text-slate-700 disabled:opacity-50"
+                        onClick={() => void handleSaveQuote()}
+                        disabled={isLoading}
+                      >
+                        Save quote
+                      </button>
+                    )}
+                    <input
+                      type="text"
+                      className="w-40 rounded-lg border border-slate-300 bg-white px-2 py-1 text-sm"
+                      placeholder={`Scenario ${scenarios.length + 1}`}
+                      value={scenarioName}
+                      onChange={(event) => setScenarioName(event.target.value)}
+                    />
+                    <button
+                      type="button"
+                      className="rounded-lg border border-indigo-200 bg-white px-3 py-1 text-sm font-semibold text-indigo-700"
+                      onClick={handlePinScenario}
+                    >
+                      Pin scenario
+                    </button>
+                    {(
+                      [
+                        ['csv', 'Export CSV'],
+                        ['json', 'Export JSON'],
+                        ['html', 'Printable quote'],
+                      ] as const
+                    ).map(([format, label]) => (
+                      <button
+                        key={format}
+                        type="button"
+                        className="rounded-lg border border-slate-300 bg-white px-3 py-1 text-sm font-semibold text-slate-700 disabled:opacity-50"
+                        onClick={() => void handleExport(format)}
+                        disabled={isLoading}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
                 </div>
 
                 <div>
@@ -571,19 +1749,60 @@ export default function ExpertFormPage() {
                     Fee Breakdown
                   </p>
                   <ul className="mt-4 space-y-3">
-                    {feeResult.feeBreakdown.map((item) => (
-                      <li
-                        key={`${item.componentName}-${item.amount}`}
-                        className="flex items-center justify-between rounded-2xl border border-slate-200 px-4 py-3 text-sm text-slate-800"
-                      >
-                        <span>{item.componentName}</span>
-                        <span className="font-semibold">
-                          {formatMoney(feeResult.currency, item.amount)}
-                        </span>
-                      </li>
-                    ))}
+                    {feeResult.feeBreakdown.map((item, index) => {
+                      const detail = describeBreakdownLine(
+                        item,
+                        feeResult.currency,
+                      );
+                      return (
+                        <li
+                          key={`${item.ruleId ?? item.label}-${index}`}
+                          className="flex items-center justify-between rounded-2xl border border-slate-200 px-4 py-3 text-sm text-slate-800"
+                        >
+                          <div>
+                            <span>{item.label}</span>
+                            {detail ? (
+                              <p className="text-xs text-slate-500">{detail}</p>
+                            ) : null}
+                          </div>
+                          <span className="font-semibold">
+                            {formatMoney(feeResult.currency, item.amount)}
+                          </span>
+                        </li>
+                      );
+                    })}
                   </ul>
                 </div>
+
+                {feeResult.eligibility.length > 0 ? (
+                  <div>
+                    <p className="text-sm font-semibold uppercase tracking-wide text-slate-500">
+                      Eligibility
+                    </p>
+                    <ul className="mt-4 space-y-3">
+                      {feeResult.eligibility.map((entry) => (
+                        <li
+                          key={entry.condition}
+                          className="rounded-2xl border border-slate-200 px-4 py-3 text-sm text-slate-800"
+                        >
+                          <div className="flex items-center justify-between">
+                            <span className="font-medium">{entry.label}</span>
+                            <span
+                              className={`rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-wide ${
+                                entry.matched
+                                  ? 'bg-emerald-50 text-emerald-700'
+                                  : 'bg-slate-100 text-slate-600'
+                              }`}
+                            >
+                              {entry.matched ? 'Applied' : 'Not eligible'}
+                            </span>
+                          </div>
+                          <p className="mt-1 text-slate-600">{entry.reason}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : null}
               </div>
             ) : (
               <div className="mt-6 rounded-2xl border border-dashed border-slate-300 px-6 py-8 text-center text-sm text-slate-500">
@@ -591,8 +1810,32 @@ export default function ExpertFormPage() {
                 &ldquo;Calculate&rdquo; to view the result here.
               </div>
             )}
+
+            {scenarios.length > 0 ? (
+              <ScenarioComparison
+                scenarios={scenarios}
+                onRename={handleRenameScenario}
+                onDuplicate={handleDuplicateScenario}
+                onRemove={handleRemoveScenario}
+              />
+            ) : null}
           </section>
 
+          <CalculationHistory
+            entries={history}
+            agencyNames={
+              new Map(agencies.map((agency) => [agency.id, agency.name]))
+            }
+            procedureNames={
+              new Map(
+                procedures.map((procedure) => [procedure.id, procedure.name]),
+              )
+            }
+            onRestore={(entry) => applyCalculationRequest(entry.request)}
+            onClear={handleClearHistory}
+            onExport={handleExportHistory}
+          />
+
           <div className="mt-10">
             <ChatWindow
               messages={chatMessages}
@@ -0,0 +1,540 @@
+import { useEffect, useState } from 'react';
+import Head from 'next/head';
+import { formatMoney } from '@/lib/format';
+import type {
+  FeeRuleRecord,
+  FeeScheduleVersion,
+  ScheduleValueChange,
+  ScheduleVersionDiff,
+  ScheduleVersionImpact,
+  UnitComponent,
+} from '@/lib/fees/types';
+
+type Option = {
+  id: string | number;
+  name: string;
+};
+
+const describeRule = (rule: FeeRuleRecord) =>
+  [
+    `procedure ${rule.procedure_id ?? '?'}`,
+    rule.role,
+    rule.component_id ? `component ${rule.component_id}` : rule.rule_kind,
+    rule.condition,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${value > 0 ? '+' : ''}${value}%`;
+
+const formatValue = (value: unknown) =>
+  value === undefined || value === null || value === '' ? '—' : String(value);
+
+const formatValueChange = (change: ScheduleValueChange) =>
+  change.before === change.after
+    ? formatValue(change.after)
+    : `${formatValue(change.before)} → ${formatValue(change.after)} (${formatPercent(
+        change.percentChange,
+      )})`;
+
+const describeVersion = (version: FeeScheduleVersion) =>
+  `${version.name} · ${
+    version.createdAt ? new Date(version.createdAt).toLocaleString() : '?'
+  }`;
+
+export default function ScheduleVersionsPage() {
+  const [agencies, setAgencies] = useState<Option[]>([]);
+  const [procedures, setProcedures] = useState<Option[]>([]);
+  const [selectedAgency, setSelectedAgency] = useState('');
+  const [versions, setVersions] = useState<FeeScheduleVersion[]>([]);
+  const [fromVersion, setFromVersion] = useState('');
+  const [toVersion, setToVersion] = useState('');
+  const [selectedProcedure, setSelectedProcedure] = useState('');
+  const [role, setRole] = useState('');
+  const [unitInputs, setUnitInputs] = useState<UnitComponent[]>([]);
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [fromAsOfDate, setFromAsOfDate] = useState('');
+  const [toAsOfDate, setToAsOfDate] = useState('');
+  const [diff, setDiff] = useState<ScheduleVersionDiff | null>(null);
+  const [impact, setImpact] = useState<ScheduleVersionImpact | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const [agenciesResponse, proceduresResponse] = await Promise.all([
+          fetch('/api/agencies'),
+          fetch('/api/procedures'),
+        ]);
+        const agenciesPayload = (await agenciesResponse.json()) as {
+          agencies?: Option[];
+        };
+        const proceduresPayload = (await proceduresResponse.json()) as {
+          procedures?: Option[];
+        };
+        setAgencies(agenciesPayload.agencies ?? []);
+        setProcedures(proceduresPayload.procedures ?? []);
+      } catch (loadError) {
+        console.error('Failed to load version options:', loadError);
+        setErrorMessage('Failed to load agencies and procedures.');
+      }
+    };
+
+    void loadOptions();
+  }, []);
+
+  useEffect(() => {
+    setVersions([]);
+    setFromVersion('');
+    setToVersion('');
+    setDiff(null);
+    setImpact(null);
+    if (!selectedAgency) {
+      return;
+    }
+
+    let isCancelled = false;
+    const loadVersions = async () => {
+      try {
+        const params = new URLSearchParams({ agencyId: selectedAgency });
+        const response = await fetch(`/api/schedule-versions?${params}`);
+        const payload = (await response.json()) as {
+          versions?: FeeScheduleVersion[];
+          error?: string;
+        };
+
+        if (!response.ok) {
+          throw new Error(payload.error ?? 'Failed to load versions.');
+        }
+
+        if (!isCancelled) {
+          const loaded = payload.versions ?? [];
+          setVersions(loaded);
+          setToVersion(loaded[0] ? String(loaded[0].id) : '');
+          setFromVersion(loaded[1] ? String(loaded[1].id) : '');
+        }
+      } catch (loadError) {
+        if (!isCancelled) {
+          setErrorMessage(
+            loadError instanceof Error
+              ? loadError.message
+              : 'Failed to load versions.',
+          );
+        }
+      }
+    };
+
+    void loadVersions();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [selectedAgency]);
+
+  useEffect(() => {
+    setUnitInputs([]);
+    setQuantities({});
+    if (!selectedProcedure) {
+      return;
+    }
+
+    let isCancelled = false;
+    const params = new URLSearchParams();
+    if (selectedAgency) {
+      params.set('agencyId', selectedAgency);
+    }
+    if (role) {
+      params.set('role', role);
+    }
+
+    const loadUnitInputs = async () => {
+      try {
+        const response = await fetch(
+          `/api/procedures/${selectedProcedure}/components?${params}`,
+        );
+        const payload = (await response.json()) as {
+          components?: UnitComponent[];
+        };
+        if (!isCancelled) {
+          setUnitInputs(payload.components ?? []);
+        }
+      } catch (loadError) {
+        console.error('Failed to load unit inputs:', loadError);
+      }
+    };
+
+    void loadUnitInputs();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [selectedAgency, selectedProcedure, role]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsLoading(true);
+    setErrorMessage(null);
+    try {
+      await action();
+    } catch (error) {
+      setErrorMessage(
+        error instanceof Error ? error.message : 'Something went wrong.',
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const compareVersions = () =>
+    run(async () => {
+      const params = new URLSearchParams({ from: fromVersion, to: toVersion });
+      if (selectedProcedure) {
+        params.set('procedureId', selectedProcedure);
+      }
+      const response = await fetch(`/api/schedule-versions/diff?${params}`);
+      const payload = (await response.json()) as ScheduleVersionDiff & {
+        error?: string;
+      };
+
+      if (!response.ok) {
+        setDiff(null);
+        throw new Error(payload.error ?? 'Failed to compare versions.');
+      }
+
+      setDiff(payload);
+    });
+
+  const calculateImpact = () =>
+    run(async () => {
+      const response = await fetch('/api/schedule-versions/impact', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fromVersionId: Number(fromVersion),
+          toVersionId: Number(toVersion),
+          agencyId: selectedAgency,
+          procedureId: Number(selectedProcedure),
+          role,
+          units: Object.entries(quantities)
+            .map(([componentId, quantity]) => ({
+              componentId: Number(componentId),
+              quantity: Math.max(0, Number(quantity) || 0),
+            }))
+            .filter((unit) => unit.quantity > 0),
+          fromAsOfDate: fromAsOfDate || undefined,
+          toAsOfDate: toAsOfDate || undefined,
+        }),
+      });
+      const payload = (await response.json()) as ScheduleVersionImpact & {
+        error?: string;
+      };
+
+      if (!response.ok) {
+        setImpact(null);
+        throw new Error(payload.error ?? 'Failed to calculate the impact.');
+      }
+
+      setImpact(payload);
+    });
+
+  const getVersionName = (id: string) =>
+    versions.find((version) => String(version.id) === id)?.name ?? '';
+
+  const canCompare = Boolean(fromVersion && toVersion) && !isLoading;
+
+  return (
+    <>
+      <Head>
+        <title>RegFee Schedule Versions</title>
+      </Head>
+      <main className="min-h-screen bg-slate-50 py-12">
+        <div className="mx-auto max-w-6xl px-4">
+          <section className="rounded-3xl bg-white p-8 shadow-sm ring-1 ring-slate-200">
+            <header className="mb-8">
+              <p className="text-sm font-semibold uppercase tracking-wide text-slate-500">
+                Schedule history
+              </p>
+              <h1 className="mt-2 text-3xl font-semibold text-slate-900">
+                Schedule Versions
+              </h1>
+              <p className="mt-3 text-sm text-slate-600">
+                Compare two saved versions of an agency&apos;s fee schedule and
+                see how a calculation changes between them.
+              </p>
+            </header>
+
+            <div className="grid gap-6 sm:grid-cols-4">
+              <label className="flex flex-col text-sm font-medium text-slate-700">
+                Agency
+                <select
+                  className="mt-2 rounded-xl border border-slate-300 bg-white px-3 py-2 text-base"
+                  value={selectedAgency}
+                  onChange={(event) => setSelectedAgency(event.target.value)}
+                >
+                  <option value="">Select an Agency</option>
+                  {agencies.map((agency) => (
+                    <option key={agency.id} value={agency.id}>
+                      {agency.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              {(
+                [
+                  ['From version', fromVersion, setFromVersion],
+                  ['To version', toVersion, setToVersion],
+                ] as const
+              ).map(([label, value, setValue]) => (
+                <label
+                  key={label}
+                  className="flex flex-col text-sm font-medium text-slate-700"
+                >
+                  {label}
+                  <select
+                    className="mt-2 rounded-xl border border-slate-300 bg-white px-3 py-2 text-base"
+                    value={value}
+                    onChange={(event) => setValue(event.target.value)}
+                    disabled={versions.length === 0}
+                  >
+                    <option value="">Select a version</option>
+                    {versions.map((version) => (
+                      <option key={version.id} value={version.id}>
+                        {describeVersion(version)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+
+              <label className="flex flex-col text-sm font-medium text-slate-700">
+                Procedure
+                <select
+                  className="mt-2 rounded-xl border border-slate-300 bg-white px-3 py-2 text-base"
+                  value={selectedProcedure}
+                  onChange={(event) => setSelectedProcedure(event.target.value)}
+                >
+                  <option value="">All procedures</option>
+                  {procedures.map((procedure) => (
+                    <option key={procedure.id} value={procedure.id}>
+                      {procedure.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {selectedAgency && versions.length === 0 ? (
+              <p className="mt-4 text-sm text-slate-500">
+                No versions have been recorded for this agency yet.
+              </p>
+            ) : null}
+
+            <button
+              type="button"
+              className="mt-6 rounded-2xl bg-indigo-600 px-6 py-3 text-base font-semibold text-white shadow-lg shadow-indigo-200 transition hover:bg-indigo-700 disabled:cursor-not-allowed disabled:bg-slate-300"
+              onClick={() => void compareVersions()}
+              disabled={!canCompare}
+            >
+              Compare versions
+            </button>
+
+            {errorMessage ? (
+              <p className="mt-6 rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+                {errorMessage}
+              </p>
+            ) : null}
+
+            {diff ? (
+              <div className="mt-8 overflow-x-auto">
+                <p className="text-sm text-slate-700">
+                  {diff.added.length} added, {diff.changed.length} changed,{' '}
+                  {diff.removed.length} removed, {diff.unchangedCount} unchanged
+                  between {diff.from.name} and {diff.to.name}.
+                </p>
+                <table className="mt-4 w-full text-left text-sm text-slate-800">
+                  <thead>
+                    <tr className="border-b border-slate-200 text-xs uppercase tracking-wide text-slate-500">
+                      <th className="px-2 py-2">Change</th>
+                      <th className="px-2 py-2">Rule</th>
+                      <th className="px-2 py-2">Amount</th>
+                      <th className="px-2 py-2">Included</th>
+                      <th className="px-2 py-2">Other fields</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diff.added.map((rule, index) => (
+                      <tr
+                        key={`added-${index}`}
+                        className="border-b border-slate-100 text-emerald-700"
+                      >
+                        <td className="px-2 py-2">Added</td>
+                        <td className="px-2 py-2">{describeRule(rule)}</td>
+                        <td className="px-2 py-2">
+                          {formatValue(rule.amount)}
+                        </td>
+                        <td className="px-2 py-2">
+                          {formatValue(rule.included_quantity)}
+                        </td>
+                        <td className="px-2 py-2" />
+                      </tr>
+                    ))}
+                    {diff.changed.map((change) => (
+                      <tr
+                        key={`changed-${change.before.id}`}
+                        className="border-b border-slate-100 text-amber-700"
+                      >
+                        <td className="px-2 py-2">Changed</td>
+                        <td className="px-2 py-2">
+                          {describeRule(change.after)}
+                        </td>
+                        <td className="px-2 py-2">
+                          {formatValueChange(change.amount)}
+                        </td>
+                        <td className="px-2 py-2">
+                          {formatValueChange(change.includedQuantity)}
+                        </td>
+                        <td className="px-2 py-2">
+                          {change.fields
+                            .filter(
+                              (field) =>
+                                field !== 'amount' &&
+                                field !== 'included_quantity',
+                            )
+                            .join(', ')}
+                        </td>
+                      </tr>
+                    ))}
+                    {diff.removed.map((rule) => (
+                      <tr
+                        key={`removed-${rule.id}`}
+                        className="border-b border-slate-100 text-rose-700"
+                      >
+                        <td className="px-2 py-2">Removed</td>
+                        <td className="px-2 py-2">{describeRule(rule)}</td>
+                        <td className="px-2 py-2">
+                          {formatValue(rule.amount)}
+                        </td>
+                        <td className="px-2 py-2">
+                          {formatValue(rule.included_quantity)}
+                        </td>
+                        <td className="px-2 py-2" />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : null}
+
+            {selectedAgency && selectedProcedure ? (
+              <section className="mt-8 rounded-2xl border border-slate-200 bg-slate-50/50 p-6">
+                <p className="text-base font-semibold text-slate-900">
+                  Calculation impact
+                </p>
+                <p className="text-sm text-slate-600">
+                  Price the same request under both versions. Each version is
+                  priced on the day it was recorded unless you pick a date.
+                </p>
+                <div className="mt-4 grid gap-4 sm:grid-cols-3">
+                  <label className="flex flex-col text-sm font-medium text-slate-700">
+                    Role
+                    <input
+                      type="text"
+                      className="mt-2 rounded-xl border border-slate-300 px-3 py-2 text-base"
+                      value={role}
+                      onChange={(event) => setRole(event.target.value)}
+                    />
+                  </label>
+                  <label className="flex flex-col text-sm font-medium text-slate-700">
+                    {getVersionName(fromVersion) || 'From version'} as of
+                    <input
+                      type="date"
+                      className="mt-2 rounded-xl border border-slate-300 px-3 py-2 text-base"
+                      value={fromAsOfDate}
+                      onChange={(event) => setFromAsOfDate(event.target.value)}
+                    />
+                  </label>
+                  <label className="flex flex-col text-sm font-medium text-slate-700">
+                    {getVersionName(toVersion) || 'To version'} as of
+                    <input
+                      type="date"
+                      className="mt-2 rounded-xl border border-slate-300 px-3 py-2 text-base"
+                      value={toAsOfDate}
+                      onChange={(event) => setToAsOfDate(event.target.value)}
+                    />
+                  </label>
+                  {unitInputs.map((input) => (
+                    <label
+                      key={input.componentId}
+                      className="flex flex-col text-sm font-medium text-slate-700"
+                    >
+                      {input.label}
+                      <input
+                        type="number"
+                        min={input.minQuantity}
+                        max={input.maxQuantity ?? undefined}
+                        className="mt-2 rounded-xl border border-slate-300 px-3 py-2 text-base"
+                        value={quantities[input.componentId] ?? ''}
+                        onChange={(event) =>
+                          setQuantities((prev) => ({
+                            ...prev,
+                            [input.componentId]: event.target.value,
+                          }))
+                        }
+                      />
+                    </label>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  className="mt-4 rounded-lg bg-slate-800 px-4 py-2 text-sm font-semibold text-white disabled:bg-slate-300"
+                  onClick={() => void calculateImpact()}
+                  disabled={!canCompare || !role.trim()}
+                >
+                  Calculate impact
+                </button>
+
+                {impact ? (
+                  <dl className="mt-4 grid gap-4 text-sm text-slate-700 sm:grid-cols-3">
+                    <div>
+                      <dt className="text-xs uppercase text-slate-500">
+                        {getVersionName(fromVersion)}
+                      </dt>
+                      <dd className="text-lg font-semibold text-slate-900">
+                        {formatMoney(
+                          impact.from.currency,
+                          impact.from.totalFee,
+                        )}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-xs uppercase text-slate-500">
+                        {getVersionName(toVersion)}
+                      </dt>
+                      <dd className="text-lg font-semibold text-slate-900">
+                        {formatMoney(impact.to.currency, impact.to.totalFee)}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-xs uppercase text-slate-500">
+                        Difference
+                      </dt>
+                      <dd className="text-lg font-semibold text-slate-900">
+                        {formatMoney(impact.to.currency, impact.difference)} (
+                        {formatPercent(impact.percentChange)})
+                      </dd>
+                    </div>
+                  </dl>
+                ) : null}
+                {impact ? (
+                  <p className="mt-2 text-xs text-slate-500">{impact.note}</p>
+                ) : null}
+              </section>
+            ) : null}
+          </section>
+        </div>
+      </main>
+    </>
+  );
+}
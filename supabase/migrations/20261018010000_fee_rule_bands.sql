@@ -0,0 +1,5 @@
+-- Volume bands for per-unit rules: a JSON array of
+-- { min_quantity, max_quantity, amount } objects. Rules without bands keep
+-- charging `amount` for every unit beyond `included_quantity`.
+alter table public.tbl_fee_rules
+  add column if not exists bands jsonb;
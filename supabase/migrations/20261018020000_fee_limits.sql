@@ -0,0 +1,15 @@
+-- Per-component caps and floors on each rule, and procedure-level limits on
+-- the total fee for an agency, procedure and role.
+alter table public.tbl_fee_rules
+  add column if not exists min_amount numeric check (min_amount >= 0),
+  add column if not exists max_amount numeric check (max_amount >= 0);
+
+create table if not exists public.tbl_fee_limits (
+  id bigint generated always as identity primary key,
+  agency_id text not null,
+  procedure_id integer not null,
+  role text not null,
+  min_total numeric check (min_total >= 0),
+  max_total numeric check (max_total >= 0),
+  unique (agency_id, procedure_id, role)
+);
@@ -0,0 +1,10 @@
+-- Percentage adjustment rules. `rule_kind = 'adjustment'` marks a rule that
+-- changes the base fee, one component or the running total by `percentage`
+-- after every component has been priced, in ascending `sequence` order.
+alter table public.tbl_fee_rules
+  add column if not exists rule_kind text,
+  add column if not exists percentage numeric,
+  add column if not exists applies_to text
+    check (applies_to in ('base', 'component', 'total')),
+  add column if not exists target_component_id integer,
+  add column if not exists sequence integer not null default 0;
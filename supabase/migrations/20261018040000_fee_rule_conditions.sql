@@ -0,0 +1,4 @@
+-- Eligibility condition a rule depends on, e.g. 'sme' or 'orphan'. Rules
+-- without a condition apply to every applicant.
+alter table public.tbl_fee_rules
+  add column if not exists condition text;
@@ -0,0 +1,11 @@
+-- Inclusive validity dates for each rule; a missing bound is open-ended.
+alter table public.tbl_fee_rules
+  add column if not exists valid_from date,
+  add column if not exists valid_to date,
+  add column if not exists schedule_version text;
+
+alter table public.tbl_fee_rules
+  drop constraint if exists tbl_fee_rules_validity_check;
+alter table public.tbl_fee_rules
+  add constraint tbl_fee_rules_validity_check
+    check (valid_from is null or valid_to is null or valid_from <= valid_to);
@@ -0,0 +1,10 @@
+-- How each component is priced. Existing components are backfilled the way
+-- the calculator used to treat them: component 1 as the flat base fee and
+-- every other component per unit.
+alter table public.tbl_fee_components
+  add column if not exists charge_type text
+    check (charge_type in ('flat', 'per-unit', 'percentage'));
+
+update public.tbl_fee_components
+set charge_type = case when component_id = 1 then 'flat' else 'per-unit' end
+where charge_type is null;
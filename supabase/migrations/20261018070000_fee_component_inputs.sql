@@ -0,0 +1,9 @@
+-- Presentation and validation settings for the unit input rendered for each
+-- per-unit component.
+alter table public.tbl_fee_components
+  add column if not exists input_label text,
+  add column if not exists min_quantity integer not null default 0
+    check (min_quantity >= 0),
+  add column if not exists max_quantity integer check (max_quantity >= 0),
+  add column if not exists help_text text,
+  add column if not exists sort_order integer;
@@ -0,0 +1,80 @@
+-- Applies a reviewed schedule import in a single transaction: removed rules are
+-- deleted, changed rules are updated in place and new rules are inserted.
+create or replace function public.apply_fee_schedule_import(
+  delete_ids bigint[],
+  updates jsonb,
+  inserts jsonb
+) returns void
+language plpgsql
+as $$
+begin
+  delete from public.tbl_fee_rules where id = any(delete_ids);
+
+  update public.tbl_fee_rules as target
+  set
+    agency_id = source.agency_id,
+    procedure_id = source.procedure_id,
+    role = source.role,
+    component_id = source.component_id,
+    component_name = source.component_name,
+    amount = source.amount,
+    included_quantity = source.included_quantity,
+    bands = source.bands,
+    min_amount = source.min_amount,
+    max_amount = source.max_amount,
+    rule_kind = source.rule_kind,
+    percentage = source.percentage,
+    applies_to = source.applies_to,
+    target_component_id = source.target_component_id,
+    sequence = source.sequence,
+    condition = source.condition,
+    valid_from = source.valid_from,
+    valid_to = source.valid_to,
+    schedule_version = source.schedule_version
+  from jsonb_populate_recordset(null::public.tbl_fee_rules, updates) as source
+  where target.id = source.id;
+
+  insert into public.tbl_fee_rules (
+    agency_id,
+    procedure_id,
+    role,
+    component_id,
+    component_name,
+    amount,
+    included_quantity,
+    bands,
+    min_amount,
+    max_amount,
+    rule_kind,
+    percentage,
+    applies_to,
+    target_component_id,
+    sequence,
+    condition,
+    valid_from,
+    valid_to,
+    schedule_version
+  )
+  select
+    agency_id,
+    procedure_id,
+    role,
+    component_id,
+    component_name,
+    amount,
+    included_quantity,
+    bands,
+    min_amount,
+    max_amount,
+    rule_kind,
+    percentage,
+    applies_to,
+    target_component_id,
+    sequence,
+    condition,
+    valid_from,
+    valid_to,
+    schedule_version
+  from jsonb_populate_recordset(null::public.tbl_fee_rules, inserts);
+end;
+$$;
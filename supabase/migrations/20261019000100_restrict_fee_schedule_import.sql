@@ -0,0 +1,7 @@
+-- Functions are executable by everyone by default, which would let anyone
+-- with the anon key apply an import through PostgREST without the admin token.
+-- Imports must go through the admin API using the service role key.
+revoke execute on function public.apply_fee_schedule_import(bigint[], jsonb, jsonb)
+  from public, anon, authenticated;
+grant execute on function public.apply_fee_schedule_import(bigint[], jsonb, jsonb)
+  to service_role;
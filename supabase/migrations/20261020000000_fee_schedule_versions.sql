@@ -0,0 +1,12 @@
+-- Snapshot of an agency's complete rule set, recorded after every change made
+-- through the admin API or a schedule import.
+create table if not exists public.tbl_fee_schedule_versions (
+  id bigint generated always as identity primary key,
+  agency_id text not null,
+  name text not null,
+  created_at timestamptz not null default now(),
+  rules jsonb not null default '[]'::jsonb
+);
+
+create index if not exists tbl_fee_schedule_versions_agency_idx
+  on public.tbl_fee_schedule_versions (agency_id, created_at desc);
@@ -0,0 +1,267 @@
+-- Rule changes and their schedule version are written by the same database
+-- call, so a change is never saved without its snapshot or the other way
+-- round.
+create or replace function public.snapshot_fee_schedule(
+  target_agency_id text,
+  version_name text
+) returns void
+language sql
+as $$
+  insert into public.tbl_fee_schedule_versions (agency_id, name, rules)
+  select
+    target_agency_id,
+    version_name,
+    coalesce(
+      jsonb_agg(to_jsonb(rule) order by rule.procedure_id, rule.role, rule.id),
+      '[]'::jsonb
+    )
+  from public.tbl_fee_rules as rule
+  where rule.agency_id = target_agency_id;
+$$;
+
+-- Saves one rule: `rule_id` null inserts, otherwise every column of the rule
+-- is replaced with `fields`. Both the previous and the new agency are
+-- snapshotted when a rule moves between agencies.
+create or replace function public.save_fee_rule(
+  rule_id bigint,
+  fields jsonb,
+  version_name text
+) returns public.tbl_fee_rules
+language plpgsql
+as $$
+declare
+  previous_agency_id text;
+  saved public.tbl_fee_rules;
+begin
+  if rule_id is null then
+    insert into public.tbl_fee_rules (
+      agency_id,
+      procedure_id,
+      role,
+      component_id,
+      component_name,
+      amount,
+      included_quantity,
+      bands,
+      min_amount,
+      max_amount,
+      rule_kind,
+      percentage,
+      applies_to,
+      target_component_id,
+      sequence,
+      condition,
+      valid_from,
+      valid_to,
+      schedule_version
+    )
+    select
+      agency_id,
+      procedure_id,
+      role,
+      component_id,
+      component_name,
+      amount,
+      included_quantity,
+      bands,
+      min_amount,
+      max_amount,
+      rule_kind,
+      percentage,
+      applies_to,
+      target_component_id,
+      coalesce(sequence, 0),
+      condition,
+      valid_from,
+      valid_to,
+      schedule_version
+    from jsonb_populate_record(null::public.tbl_fee_rules, fields)
+    returning * into saved;
+  else
+    select agency_id into previous_agency_id
+    from public.tbl_fee_rules
+    where id = rule_id
+    for update;
+
+    if not found then
+      return null;
+    end if;
+
+    update public.tbl_fee_rules as target
+    set
+      agency_id = source.agency_id,
+      procedure_id = source.procedure_id,
+      role = source.role,
+      component_id = source.component_id,
+      component_name = source.component_name,
+      amount = source.amount,
+      included_quantity = source.included_quantity,
+      bands = source.bands,
+      min_amount = source.min_amount,
+      max_amount = source.max_amount,
+      rule_kind = source.rule_kind,
+      percentage = source.percentage,
+      applies_to = source.applies_to,
+      target_component_id = source.target_component_id,
+      sequence = coalesce(source.sequence, 0),
+      condition = source.condition,
+      valid_from = source.valid_from,
+      valid_to = source.valid_to,
+      schedule_version = source.schedule_version
+    from jsonb_populate_record(null::public.tbl_fee_rules, fields) as source
+    where target.id = rule_id
+    returning target.* into saved;
+  end if;
+
+  perform public.snapshot_fee_schedule(saved.agency_id, version_name);
+  if previous_agency_id is distinct from saved.agency_id
+    and previous_agency_id is not null then
+    perform public.snapshot_fee_schedule(previous_agency_id, version_name);
+  end if;
+
+  return saved;
+end;
+$$;
+
+create or replace function public.delete_fee_rule(
+  rule_id bigint,
+  version_name text
+) returns boolean
+language plpgsql
+as $$
+declare
+  deleted_agency_id text;
+begin
+  delete from public.tbl_fee_rules
+  where id = rule_id
+  returning agency_id into deleted_agency_id;
+
+  if not found then
+    return false;
+  end if;
+
+  perform public.snapshot_fee_schedule(deleted_agency_id, version_name);
+  return true;
+end;
+$$;
+
+drop function if exists public.apply_fee_schedule_import(bigint[], jsonb, jsonb);
+
+create or replace function public.apply_fee_schedule_import(
+  target_agency_id text,
+  version_name text,
+  delete_ids bigint[],
+  updates jsonb,
+  inserts jsonb
+) returns void
+language plpgsql
+as $$
+begin
+  delete from public.tbl_fee_rules
+  where id = any(delete_ids) and agency_id = target_agency_id;
+
+  update public.tbl_fee_rules as target
+  set
+    agency_id = source.agency_id,
+    procedure_id = source.procedure_id,
+    role = source.role,
+    component_id = source.component_id,
+    component_name = source.component_name,
+    amount = source.amount,
+    included_quantity = source.included_quantity,
+    bands = source.bands,
+    min_amount = source.min_amount,
+    max_amount = source.max_amount,
+    rule_kind = source.rule_kind,
+    percentage = source.percentage,
+    applies_to = source.applies_to,
+    target_component_id = source.target_component_id,
+    sequence = coalesce(source.sequence, 0),
+    condition = source.condition,
+    valid_from = source.valid_from,
+    valid_to = source.valid_to,
+    schedule_version = source.schedule_version
+  from jsonb_populate_recordset(null::public.tbl_fee_rules, updates) as source
+  where target.id = source.id and target.agency_id = target_agency_id;
+
+  insert into public.tbl_fee_rules (
+    agency_id,
+    procedure_id,
+    role,
+    component_id,
+    component_name,
+    amount,
+    included_quantity,
+    bands,
+    min_amount,
+    max_amount,
+    rule_kind,
+    percentage,
+    applies_to,
+    target_component_id,
+    sequence,
+    condition,
+    valid_from,
+    valid_to,
+    schedule_version
+  )
+  select
+    agency_id,
+    procedure_id,
+    role,
+    component_id,
+    component_name,
+    amount,
+    included_quantity,
+    bands,
+    min_amount,
+    max_amount,
+    rule_kind,
+    percentage,
+    applies_to,
+    target_component_id,
+    coalesce(sequence, 0),
+    condition,
+    valid_from,
+    valid_to,
+    schedule_version
+  from jsonb_populate_recordset(null::public.tbl_fee_rules, inserts);
+
+  perform public.snapshot_fee_schedule(target_agency_id, version_name);
+end;
+$$;
+
+revoke execute on function public.snapshot_fee_schedule(text, text)
+  from public, anon, authenticated;
+revoke execute on function public.save_fee_rule(bigint, jsonb, text)
+  from public, anon, authenticated;
+revoke execute on function public.delete_fee_rule(bigint, text)
+  from public, anon, authenticated;
+revoke execute on function public.apply_fee_schedule_import(text, text, bigint[], jsonb, jsonb)
+  from public, anon, authenticated;
+
+grant execute on function public.snapshot_fee_schedule(text, text)
+  to service_role;
+grant execute on function public.save_fee_rule(bigint, jsonb, text)
+  to service_role;
+grant execute on function public.delete_fee_rule(bigint, text)
+  to service_role;
+grant execute on function public.apply_fee_schedule_import(text, text, bigint[], jsonb, jsonb)
+  to service_role;
+
+-- Baseline snapshot of every agency that has rules but no recorded version,
+-- so the history reaches back to the schedule as it was before any admin
+-- edit.
+insert into public.tbl_fee_schedule_versions (agency_id, name, rules)
+select
+  rule.agency_id,
+  'Baseline',
+  jsonb_agg(to_jsonb(rule) order by rule.procedure_id, rule.role, rule.id)
+from public.tbl_fee_rules as rule
+where rule.agency_id is not null
+  and not exists (
+    select 1
+    from public.tbl_fee_schedule_versions as version
+    where version.agency_id = rule.agency_id
+  )
+group by rule.agency_id;
@@ -0,0 +1,17 @@
+-- Calculation results saved by /api/calculate-fee when saveQuote is set. The
+-- inputs and result are stored as calculated and never recomputed.
+create table if not exists public.tbl_fee_quotes (
+  id uuid primary key default gen_random_uuid(),
+  agency_id text not null,
+  procedure_id integer not null,
+  role text not null,
+  currency text not null,
+  total_fee numeric not null,
+  schedule_version_id bigint references public.tbl_fee_schedule_versions (id),
+  inputs jsonb not null,
+  result jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists tbl_fee_quotes_lookup_idx
+  on public.tbl_fee_quotes (agency_id, procedure_id, created_at desc);
@@ -0,0 +1,13 @@
+-- Fee limits are read by the calculator with whichever key the server has, but
+-- only the admin API, using the service role key, may change them.
+alter table public.tbl_fee_limits enable row level security;
+
+revoke insert, update, delete, truncate on public.tbl_fee_limits
+  from anon, authenticated;
+
+drop policy if exists "Fee limits are readable" on public.tbl_fee_limits;
+create policy "Fee limits are readable"
+  on public.tbl_fee_limits
+  for select
+  to anon, authenticated
+  using (true);
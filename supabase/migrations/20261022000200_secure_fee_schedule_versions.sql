@@ -0,0 +1,15 @@
+-- The version history is readable, but entries are only written by the
+-- schedule functions and the admin API, so they cannot be forged or removed
+-- with the anon key.
+alter table public.tbl_fee_schedule_versions enable row level security;
+
+revoke insert, update, delete, truncate on public.tbl_fee_schedule_versions
+  from anon, authenticated;
+
+drop policy if exists "Fee schedule versions are readable"
+  on public.tbl_fee_schedule_versions;
+create policy "Fee schedule versions are readable"
+  on public.tbl_fee_schedule_versions
+  for select
+  to anon, authenticated
+  using (true);
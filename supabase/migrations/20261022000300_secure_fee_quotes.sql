@@ -0,0 +1,6 @@
+-- Saved quotes must be retrieved later unchanged, so they are only read and
+-- written by the API using the service role key, never directly with the anon
+-- key.
+alter table public.tbl_fee_quotes enable row level security;
+
+revoke all on public.tbl_fee_quotes from anon, authenticated;